@@ -0,0 +1,9 @@
+"use server";
+
+import type { Rocket } from "../../src/config";
+import { requestRender } from "../lib/render-server";
+
+export const startRenderAction = async (username: string, theme: Rocket) => {
+  const { response } = await requestRender({ username, theme });
+  return response;
+};
@@ -0,0 +1,60 @@
+import type { Metadata } from "next";
+import { OG_IMAGE_HEIGHT, OG_IMAGE_WIDTH } from "../../types/constants";
+import { RenderStatus } from "../components/RenderStatus";
+import { UnwrappedPlayer } from "../components/UnwrappedPlayer";
+import { getOgImageUrl, getRenderEventsUrl } from "../lib/render-server";
+import type { UserVideoParams } from "../lib/user-video";
+import {
+  getUserStatsOrNotFound,
+  getUserVideo,
+  getUsernameParam,
+} from "../lib/user-video";
+
+export const generateMetadata = async ({
+  params,
+}: UserVideoParams): Promise<Metadata> => {
+  const username = await getUsernameParam(params);
+  const { username: login } = await getUserStatsOrNotFound(username);
+  const title = `${login}'s GitHub Unwrapped`;
+  const description = `${login}'s year on GitHub as a video.`;
+  const ogImage = {
+    url: getOgImageUrl(login),
+    width: OG_IMAGE_WIDTH,
+    height: OG_IMAGE_HEIGHT,
+  };
+
+  return {
+    title,
+    description,
+    openGraph: { title, description, images: [ogImage] },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description,
+      images: [ogImage.url],
+    },
+  };
+};
+
+export default async function UserPage(props: UserVideoParams) {
+  const { stats, inputProps } = await getUserVideo(props);
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-black font-sans text-white">
+      <main className="flex w-full max-w-3xl flex-col gap-8 px-8 py-16">
+        <h1 className="text-4xl font-semibold tracking-tight">
+          {stats.username}&apos;s GitHub Unwrapped
+        </h1>
+        <UnwrappedPlayer inputProps={inputProps} autoPlay />
+        <RenderStatus
+          username={stats.username}
+          theme={inputProps.rocket}
+          eventsUrl={getRenderEventsUrl({
+            username: stats.username,
+            theme: inputProps.rocket,
+          })}
+        />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import type { Metadata } from "next";
+import { RenderProgress } from "../../components/RenderProgress";
+import { getRenderEventsUrl } from "../../lib/render-server";
+import type { UserVideoParams } from "../../lib/user-video";
+import { getUserVideo, getUsernameParam } from "../../lib/user-video";
+
+export const generateMetadata = async ({
+  params,
+}: UserVideoParams): Promise<Metadata> => {
+  const username = await getUsernameParam(params);
+
+  return {
+    title: `Rendering ${username}'s GitHub Unwrapped`,
+    // Only the video page should be shared
+    robots: { index: false },
+  };
+};
+
+export default async function ProgressPage(props: UserVideoParams) {
+  const { stats, inputProps } = await getUserVideo(props);
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-black font-sans text-white">
+      <main className="flex w-full max-w-3xl flex-col gap-8 px-8 py-16">
+        <h1 className="text-4xl font-semibold tracking-tight">
+          Rendering {stats.username}&apos;s video
+        </h1>
+        <RenderProgress
+          username={stats.username}
+          theme={inputProps.rocket}
+          eventsUrl={getRenderEventsUrl({
+            username: stats.username,
+            theme: inputProps.rocket,
+          })}
+        />
+      </main>
+    </div>
+  );
+}
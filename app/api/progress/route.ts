@@ -0,0 +1,17 @@
+import { ProgressRequest } from "../../../src/config";
+import { parseApiRequest, renderResponse } from "../../lib/api";
+import { getRenderProgress } from "../../lib/render-server";
+
+/**
+ * POST `ProgressRequest` → `RenderResponse`, `render-error` with status 404
+ * if no render was requested.
+ */
+export const POST = async (request: Request) => {
+  const parsed = await parseApiRequest(request, ProgressRequest);
+  if (!parsed.success) {
+    return renderResponse({ type: "render-error", error: parsed.error }, 400);
+  }
+
+  const { status, response } = await getRenderProgress(parsed.data);
+  return renderResponse(response, status);
+};
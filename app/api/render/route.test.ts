@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { POST } from "./route";
+
+const post = (body: unknown) => {
+  return POST(
+    new Request("http://localhost/api/render", {
+      method: "POST",
+      body: JSON.stringify(body),
+    }),
+  );
+};
+
+describe("POST /api/render", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test("forwards the request and the answer of the render server", async () => {
+    const fetchMock = vi.fn(async () => {
+      return Response.json(
+        { type: "render-error", error: "GitHub user nobody does not exist" },
+        { status: 404 },
+      );
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const response = await post({ username: "nobody", theme: "blue" });
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({
+      type: "render-error",
+      error: "GitHub user nobody does not exist",
+    });
+    expect(fetchMock).toHaveBeenCalledWith(
+      expect.stringMatching(/\/render$/),
+      expect.objectContaining({ method: "POST" }),
+    );
+  });
+
+  test("rejects unknown themes with 400", async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+
+    const response = await post({ username: "octocat", theme: "purple" });
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toMatch(
+      /purple is not a valid theme/,
+    );
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  test("answers with 502 when the render server is unreachable", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => {
+        throw new Error("connect ECONNREFUSED");
+      }),
+    );
+
+    const response = await post({ username: "octocat", theme: "blue" });
+    expect(response.status).toBe(502);
+    expect((await response.json()).error).toMatch(/Render server unavailable/);
+  });
+});
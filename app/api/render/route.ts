@@ -0,0 +1,17 @@
+import { RenderRequest } from "../../../src/config";
+import { parseApiRequest, renderResponse } from "../../lib/api";
+import { requestRender } from "../../lib/render-server";
+
+/**
+ * POST `RenderRequest` → `RenderResponse`, starts a render unless the video
+ * is cached or already rendering.
+ */
+export const POST = async (request: Request) => {
+  const parsed = await parseApiRequest(request, RenderRequest);
+  if (!parsed.success) {
+    return renderResponse({ type: "render-error", error: parsed.error }, 400);
+  }
+
+  const { status, response } = await requestRender(parsed.data);
+  return renderResponse(response, status);
+};
@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import { getMockProfileStats } from "../../../remotion/test-scenes/components/MockData";
+import { GitHubNotFoundError } from "../../../src/github";
+import { getStats } from "../../lib/stats";
+import { POST } from "./route";
+
+vi.mock("../../lib/stats", () => {
+  return { getStats: vi.fn() };
+});
+
+const post = (body: unknown) => {
+  return POST(
+    new Request("http://localhost/api/stats", {
+      method: "POST",
+      body: JSON.stringify(body),
+    }),
+  );
+};
+
+describe("POST /api/stats", () => {
+  beforeEach(() => {
+    vi.mocked(getStats).mockReset();
+  });
+
+  test("answers with the stats of the user", async () => {
+    vi.mocked(getStats).mockResolvedValue(getMockProfileStats("octocat"));
+
+    const response = await post({ username: "octocat" });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      type: "stats-available",
+      stats: { lowercasedUsername: "octocat" },
+    });
+    expect(getStats).toHaveBeenCalledWith({
+      username: "octocat",
+      refreshCache: false,
+    });
+  });
+
+  test("rejects invalid usernames with 400", async () => {
+    const response = await post({ username: "not a user" });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).type).toBe("stats-error");
+    expect(getStats).not.toHaveBeenCalled();
+  });
+
+  test("answers with 404 for users that don't exist", async () => {
+    vi.mocked(getStats).mockRejectedValue(
+      new GitHubNotFoundError("GitHub user nobody does not exist"),
+    );
+
+    const response = await post({ username: "nobody" });
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({
+      type: "stats-error",
+      error: "GitHub user nobody does not exist",
+    });
+  });
+
+  test("answers with 500 when fetching the stats fails", async () => {
+    vi.mocked(getStats).mockRejectedValue(new Error("GitHub is down"));
+
+    const response = await post({ username: "octocat" });
+    expect(response.status).toBe(500);
+  });
+});
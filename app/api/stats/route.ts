@@ -0,0 +1,28 @@
+import { StatsRequest } from "../../../src/config";
+import { GitHubNotFoundError } from "../../../src/github";
+import { parseApiRequest, statsResponse } from "../../lib/api";
+import { getStats } from "../../lib/stats";
+
+/**
+ * POST `StatsRequest` → `StatsResponse`, `stats-error` with status 404 for
+ * users that don't exist
+ */
+export const POST = async (request: Request) => {
+  const parsed = await parseApiRequest(request, StatsRequest);
+  if (!parsed.success) {
+    return statsResponse({ type: "stats-error", error: parsed.error }, 400);
+  }
+
+  try {
+    const stats = await getStats(parsed.data);
+    return statsResponse({ type: "stats-available", stats });
+  } catch (err) {
+    return statsResponse(
+      {
+        type: "stats-error",
+        error: err instanceof Error ? err.message : String(err),
+      },
+      err instanceof GitHubNotFoundError ? 404 : 500,
+    );
+  }
+};
@@ -0,0 +1,110 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import React, { useCallback, useDeferredValue, useMemo, useState } from "react";
+import { getMockProfileStats } from "../../remotion/test-scenes/components/MockData";
+import type { Rocket } from "../../src/config";
+import { computeCompositionParameters, rocketValues } from "../../src/config";
+import { UnwrappedPlayer } from "./UnwrappedPlayer";
+
+const PREVIEW_USERNAME = "octocat";
+
+/**
+ * Username form with a rocket picker. The preview uses mock stats, the
+ * user's real stats are fetched on their page.
+ */
+export const LandingForm: React.FC = () => {
+  const router = useRouter();
+  const [username, setUsername] = useState("");
+  const [rocket, setRocket] = useState<Rocket>("blue");
+
+  // Typing shouldn't wait for the player to re-render
+  const previewUsername = useDeferredValue(username.trim() || PREVIEW_USERNAME);
+
+  const inputProps = useMemo(() => {
+    return computeCompositionParameters(
+      getMockProfileStats(previewUsername),
+      rocket,
+    );
+  }, [previewUsername, rocket]);
+
+  const onSubmit = useCallback(
+    (e: React.FormEvent) => {
+      e.preventDefault();
+      const trimmed = username.trim();
+      if (!trimmed) {
+        return;
+      }
+
+      router.push(
+        `/${encodeURIComponent(trimmed)}?theme=${encodeURIComponent(rocket)}`,
+      );
+    },
+    [rocket, router, username],
+  );
+
+  return (
+    <div className="flex w-full flex-col gap-10 md:flex-row md:items-center">
+      <form onSubmit={onSubmit} className="flex flex-1 flex-col gap-6">
+        <label className="flex flex-col gap-2">
+          <span className="text-sm uppercase tracking-widest text-zinc-400">
+            GitHub username
+          </span>
+          <input
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            placeholder={PREVIEW_USERNAME}
+            autoComplete="off"
+            spellCheck={false}
+            required
+            className="h-12 rounded-full border border-white/20 bg-white/5 px-5 text-lg outline-none focus:border-[#0FE3EA]"
+          />
+        </label>
+        <fieldset className="flex flex-col gap-2">
+          <legend className="mb-2 text-sm uppercase tracking-widest text-zinc-400">
+            Rocket
+          </legend>
+          <div className="flex gap-3">
+            {rocketValues.map((value) => {
+              return (
+                <label
+                  key={value}
+                  className={`flex flex-1 cursor-pointer flex-col items-center gap-2 rounded-2xl border p-3 capitalize transition-colors ${
+                    value === rocket
+                      ? "border-[#0FE3EA] bg-white/10"
+                      : "border-white/20 hover:bg-white/5"
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="rocket"
+                    value={value}
+                    checked={value === rocket}
+                    onChange={() => setRocket(value)}
+                    className="sr-only"
+                  />
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img
+                    src={`/rocket-side-${value}.png`}
+                    alt=""
+                    className="h-10 object-contain"
+                  />
+                  {value}
+                </label>
+              );
+            })}
+          </div>
+        </fieldset>
+        <button
+          type="submit"
+          className="h-12 rounded-full bg-gradient-to-r from-[#7475FD] to-[#0FE3EA] font-semibold text-black transition-opacity hover:opacity-90"
+        >
+          Unwrap my year
+        </button>
+      </form>
+      <div className="flex-1">
+        <UnwrappedPlayer inputProps={inputProps} />
+      </div>
+    </div>
+  );
+};
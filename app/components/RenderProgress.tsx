@@ -0,0 +1,87 @@
+"use client";
+
+import React from "react";
+import type { Rocket } from "../../src/config";
+import { renderServerStages } from "../../src/config";
+import { RENDER_STAGE_LABELS, RenderProgressBar } from "./RenderProgressBar";
+import { useRenderEvents } from "./use-render-events";
+
+/**
+ * Full-page render progress: every stage with the current one highlighted,
+ * replaced by the finished video once it is available.
+ */
+export const RenderProgress: React.FC<{
+  username: string;
+  theme: Rocket;
+  eventsUrl: string;
+}> = ({ username, theme, eventsUrl }) => {
+  const { status, retry } = useRenderEvents({ username, theme, eventsUrl });
+
+  if (status?.type === "video-available") {
+    return (
+      <div className="flex flex-col gap-6">
+        <video
+          src={status.url}
+          controls
+          autoPlay
+          className="aspect-square w-full rounded-2xl bg-black"
+        />
+        <a
+          href={status.url}
+          download
+          className="inline-flex h-12 items-center justify-center self-start rounded-full bg-gradient-to-r from-[#7475FD] to-[#0FE3EA] px-6 font-semibold text-black transition-opacity hover:opacity-90"
+        >
+          Download video
+        </a>
+      </div>
+    );
+  }
+
+  if (status?.type === "render-error") {
+    return (
+      <div className="flex flex-col items-start gap-2">
+        <p className="text-red-400">Rendering failed: {status.error}</p>
+        <button
+          type="button"
+          onClick={retry}
+          className="rounded-full border border-white/20 px-5 py-2 hover:bg-white/5"
+        >
+          Try again
+        </button>
+      </div>
+    );
+  }
+
+  const currentStage = status?.stage ?? null;
+  const currentIndex = currentStage
+    ? renderServerStages.indexOf(currentStage)
+    : -1;
+
+  return (
+    <div className="flex flex-col gap-8">
+      <ol className="flex flex-col gap-3">
+        {renderServerStages.map((stage, i) => {
+          return (
+            <li
+              key={stage}
+              className={
+                i === currentIndex
+                  ? "font-semibold text-white"
+                  : i < currentIndex
+                    ? "text-zinc-400 line-through"
+                    : "text-zinc-600"
+              }
+            >
+              {RENDER_STAGE_LABELS[stage]}
+            </li>
+          );
+        })}
+      </ol>
+      {status ? (
+        <RenderProgressBar progress={status.progress} stage={status.stage} />
+      ) : (
+        <p className="text-zinc-400">Requesting your video…</p>
+      )}
+    </div>
+  );
+};
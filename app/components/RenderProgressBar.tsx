@@ -0,0 +1,29 @@
+import React from "react";
+import type { RenderStage } from "../../src/config";
+
+export const RENDER_STAGE_LABELS: Record<RenderStage, string> = {
+  bundling: "Preparing",
+  rendering: "Rendering frames",
+  encoding: "Encoding video",
+  uploading: "Uploading",
+};
+
+export const RenderProgressBar: React.FC<{
+  progress: number;
+  stage?: RenderStage;
+}> = ({ progress, stage }) => {
+  return (
+    <div className="flex flex-col gap-2">
+      <p className="text-zinc-400">
+        {stage ? RENDER_STAGE_LABELS[stage] : "Waiting for a free renderer"}…{" "}
+        {Math.round(progress * 100)}%
+      </p>
+      <div className="h-2 overflow-hidden rounded-full bg-white/10">
+        <div
+          className="h-full bg-gradient-to-r from-[#7475FD] to-[#0FE3EA] transition-[width]"
+          style={{ width: `${progress * 100}%` }}
+        />
+      </div>
+    </div>
+  );
+};
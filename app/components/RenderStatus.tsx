@@ -0,0 +1,62 @@
+"use client";
+
+import Link from "next/link";
+import React from "react";
+import type { Rocket } from "../../src/config";
+import { RenderProgressBar } from "./RenderProgressBar";
+import { useRenderEvents } from "./use-render-events";
+
+/**
+ * Starts the render of a user's video and follows it until it can be
+ * downloaded. Mirrors the `RenderResponse` union.
+ */
+export const RenderStatus: React.FC<{
+  username: string;
+  theme: Rocket;
+  eventsUrl: string;
+}> = ({ username, theme, eventsUrl }) => {
+  const { status, retry } = useRenderEvents({ username, theme, eventsUrl });
+
+  if (!status) {
+    return <p className="text-zinc-400">Requesting your video…</p>;
+  }
+
+  if (status.type === "render-running") {
+    return (
+      <div className="flex flex-col gap-2">
+        <RenderProgressBar progress={status.progress} stage={status.stage} />
+        <Link
+          href={`/${encodeURIComponent(username)}/progress?theme=${theme}`}
+          className="text-sm text-zinc-400 underline hover:text-white"
+        >
+          Follow the progress
+        </Link>
+      </div>
+    );
+  }
+
+  if (status.type === "render-error") {
+    return (
+      <div className="flex flex-col items-start gap-2">
+        <p className="text-red-400">Rendering failed: {status.error}</p>
+        <button
+          type="button"
+          onClick={retry}
+          className="rounded-full border border-white/20 px-5 py-2 hover:bg-white/5"
+        >
+          Try again
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <a
+      href={status.url}
+      download
+      className="inline-flex h-12 items-center justify-center rounded-full bg-gradient-to-r from-[#7475FD] to-[#0FE3EA] px-6 font-semibold text-black transition-opacity hover:opacity-90"
+    >
+      Download video
+    </a>
+  );
+};
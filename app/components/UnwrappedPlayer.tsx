@@ -0,0 +1,36 @@
+"use client";
+
+import { Player } from "@remotion/player";
+import React, { useMemo } from "react";
+import { Unwrapped, getUnwrappedDuration } from "../../remotion/Unwrapped";
+import type { CompositionParameters } from "../../src/config";
+import { VIDEO_FPS, VIDEO_HEIGHT, VIDEO_WIDTH } from "../../types/constants";
+
+/**
+ * The `Unwrapped` composition in the browser. Same props and duration as a
+ * render, so the preview matches the downloadable video.
+ */
+export const UnwrappedPlayer: React.FC<{
+  inputProps: CompositionParameters;
+  autoPlay?: boolean;
+}> = ({ inputProps, autoPlay = false }) => {
+  const durationInFrames = useMemo(() => {
+    return getUnwrappedDuration(inputProps);
+  }, [inputProps]);
+
+  return (
+    <Player
+      component={Unwrapped}
+      inputProps={inputProps}
+      durationInFrames={durationInFrames}
+      fps={VIDEO_FPS}
+      compositionWidth={VIDEO_WIDTH}
+      compositionHeight={VIDEO_HEIGHT}
+      autoPlay={autoPlay}
+      loop
+      controls
+      style={{ width: "100%", aspectRatio: "1 / 1" }}
+      className="overflow-hidden rounded-2xl"
+    />
+  );
+};
@@ -0,0 +1,89 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { RenderResponse, Rocket } from "../../src/config";
+import { startRenderAction } from "../[username]/actions";
+
+const EVENT_TYPES: RenderResponse["type"][] = [
+  "render-running",
+  "video-available",
+  "render-error",
+];
+
+/**
+ * Starts the render of a user's video, then follows its progress over
+ * server-sent events from `eventsUrl` until it is available or failed.
+ */
+export const useRenderEvents = ({
+  username,
+  theme,
+  eventsUrl,
+}: {
+  username: string;
+  theme: Rocket;
+  eventsUrl: string;
+}) => {
+  const [status, setStatus] = useState<RenderResponse | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    let source: EventSource | null = null;
+
+    startRenderAction(username, theme)
+      .then((initial) => {
+        if (cancelled) {
+          return;
+        }
+
+        setStatus(initial);
+        if (initial.type !== "render-running") {
+          return;
+        }
+
+        source = new EventSource(eventsUrl);
+        for (const type of EVENT_TYPES) {
+          source.addEventListener(type, (e) => {
+            const response = JSON.parse(e.data) as RenderResponse;
+            setStatus(response);
+            if (response.type !== "render-running") {
+              source?.close();
+            }
+          });
+        }
+
+        // EventSource reconnects by itself unless the server is gone for good
+        source.onerror = () => {
+          if (source?.readyState === EventSource.CLOSED) {
+            setStatus({
+              type: "render-error",
+              error: "Lost the connection to the render server",
+            });
+          }
+        };
+      })
+      .catch((err) => {
+        // The server action failed, e.g. the app server is unreachable
+        if (cancelled) {
+          return;
+        }
+
+        setStatus({
+          type: "render-error",
+          error: err instanceof Error ? err.message : String(err),
+        });
+      });
+
+    return () => {
+      cancelled = true;
+      source?.close();
+    };
+  }, [username, theme, eventsUrl, attempt]);
+
+  const retry = useCallback(() => {
+    setStatus(null);
+    setAttempt((a) => a + 1);
+  }, []);
+
+  return { status, retry };
+};
@@ -13,8 +13,8 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
-  title: "Create Next App",
-  description: "Generated by create next app",
+  title: "GitHub Unwrapped",
+  description: "Your year on GitHub as a personalized video.",
 };
 
 export default function RootLayout({
@@ -0,0 +1,70 @@
+import type { z } from "zod";
+import type { RenderResponse, StatsResponse } from "../../src/config";
+import {
+  GITHUB_USERNAME_REGEX,
+  rocketSchema,
+  rocketValues,
+} from "../../src/config";
+
+type ParsedApiRequest<Data> =
+  | { success: true; data: Data }
+  | { success: false; error: string };
+
+// Checked before the schema so that every route rejects a bad username or
+// theme with the same message
+const getInvalidFieldError = (body: unknown) => {
+  if (typeof body !== "object" || body === null) {
+    return null;
+  }
+
+  const { username, theme } = body as Record<string, unknown>;
+  if (typeof username === "string" && !GITHUB_USERNAME_REGEX.test(username)) {
+    return `${username} is not a valid GitHub username`;
+  }
+
+  if (typeof theme === "string" && !rocketSchema.safeParse(theme).success) {
+    return `${theme} is not a valid theme, expected one of ${rocketValues.join(", ")}`;
+  }
+
+  return null;
+};
+
+/**
+ * Reads a JSON body and validates it with `schema`.
+ */
+export const parseApiRequest = async <Schema extends z.ZodTypeAny>(
+  request: Request,
+  schema: Schema,
+): Promise<ParsedApiRequest<z.infer<Schema>>> => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return { success: false, error: "Body must be JSON" };
+  }
+
+  const invalidFieldError = getInvalidFieldError(body);
+  if (invalidFieldError) {
+    return { success: false, error: invalidFieldError };
+  }
+
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: parsed.error.issues
+        .map((issue) => `${issue.path.join(".") || "body"}: ${issue.message}`)
+        .join(", "),
+    };
+  }
+
+  return { success: true, data: parsed.data };
+};
+
+export const renderResponse = (response: RenderResponse, status = 200) => {
+  return Response.json(response, { status });
+};
+
+export const statsResponse = (response: StatsResponse, status = 200) => {
+  return Response.json(response, { status });
+};
@@ -0,0 +1,68 @@
+import type { z } from "zod";
+import type {
+  ProgressRequest,
+  RenderRequest,
+  RenderResponse,
+} from "../../src/config";
+
+/**
+ * Where `npm run render:server` listens. Its URLs end up in the browser
+ * (videos, OG images), so it has to be reachable from there too.
+ */
+export const RENDER_SERVER_URL =
+  process.env.RENDER_SERVER_URL ?? "http://127.0.0.1:4020";
+
+/**
+ * The render server's response and HTTP status. Errors come back as
+ * `render-error` bodies with a 4xx / 5xx status.
+ */
+export type RenderServerResult = {
+  status: number;
+  response: RenderResponse;
+};
+
+const post = async (
+  pathname: "/render" | "/progress",
+  body: unknown,
+): Promise<RenderServerResult> => {
+  try {
+    const res = await fetch(`${RENDER_SERVER_URL}${pathname}`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(body),
+      cache: "no-store",
+    });
+
+    return {
+      status: res.status,
+      response: (await res.json()) as RenderResponse,
+    };
+  } catch (err) {
+    return {
+      status: 502,
+      response: {
+        type: "render-error",
+        error: `Render server unavailable: ${err instanceof Error ? err.message : String(err)}`,
+      },
+    };
+  }
+};
+
+export const requestRender = (request: z.input<typeof RenderRequest>) => {
+  return post("/render", request);
+};
+
+export const getRenderProgress = (request: z.input<typeof ProgressRequest>) => {
+  return post("/progress", request);
+};
+
+export const getRenderEventsUrl = (
+  request: z.input<typeof ProgressRequest>,
+) => {
+  const params = new URLSearchParams(request);
+  return `${RENDER_SERVER_URL}/progress/events?${params}`;
+};
+
+export const getOgImageUrl = (username: string) => {
+  return `${RENDER_SERVER_URL}/og/${encodeURIComponent(username)}.png`;
+};
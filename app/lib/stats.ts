@@ -0,0 +1,45 @@
+import { cache } from "react";
+import { getMockProfileStats } from "../../remotion/test-scenes/components/MockData";
+import type { ProfileStats } from "../../src/config";
+import { createGitHubStatsRepository } from "../../src/stats-repository/github";
+
+const token = process.env.GITHUB_TOKEN;
+
+// Shares out/stats with the render server, so both see the same stats
+const statsRepository = token
+  ? createGitHubStatsRepository({
+      token,
+      year: Number(process.env.UNWRAPPED_YEAR ?? new Date().getFullYear()),
+    })
+  : null;
+
+/**
+ * A user's stats. Without `GITHUB_TOKEN`, every user gets the mock stats in
+ * development (`next dev`), anywhere else it is a configuration error.
+ *
+ * Throws `GitHubNotFoundError` for users that don't exist.
+ */
+export const getStats = async ({
+  username,
+  refreshCache = false,
+}: {
+  username: string;
+  refreshCache?: boolean;
+}): Promise<ProfileStats> => {
+  if (!statsRepository) {
+    if (process.env.NODE_ENV === "development") {
+      return getMockProfileStats(username);
+    }
+
+    throw new Error("Set GITHUB_TOKEN to fetch the stats of the users");
+  }
+
+  return statsRepository.getStats({ username, refreshCache });
+};
+
+/**
+ * `getStats()`, deduplicated per request for pages and their metadata.
+ */
+export const getUserStats = cache((username: string) => {
+  return getStats({ username });
+});
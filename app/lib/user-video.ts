@@ -0,0 +1,59 @@
+import { notFound } from "next/navigation";
+import {
+  GITHUB_USERNAME_REGEX,
+  computeCompositionParameters,
+  rocketSchema,
+} from "../../src/config";
+import { GitHubNotFoundError } from "../../src/github";
+import { getUserStats } from "./stats";
+
+export type UserVideoParams = {
+  params: Promise<{ username: string }>;
+  searchParams: Promise<{ theme?: string | string[] }>;
+};
+
+export const getUsernameParam = async (params: UserVideoParams["params"]) => {
+  const { username } = await params;
+  const decoded = decodeURIComponent(username);
+  if (!GITHUB_USERNAME_REGEX.test(decoded)) {
+    notFound();
+  }
+
+  return decoded;
+};
+
+/**
+ * `getUserStats()`, 404 for users that don't exist on GitHub.
+ */
+export const getUserStatsOrNotFound = async (username: string) => {
+  try {
+    return await getUserStats(username);
+  } catch (err) {
+    if (err instanceof GitHubNotFoundError) {
+      notFound();
+    }
+
+    throw err;
+  }
+};
+
+/**
+ * Stats and video props for `/[username]?theme=<rocket>`.
+ */
+export const getUserVideo = async ({
+  params,
+  searchParams,
+}: UserVideoParams) => {
+  const username = await getUsernameParam(params);
+  const { theme } = await searchParams;
+  const stats = await getUserStatsOrNotFound(username);
+
+  // No or an unknown theme: the rocket computeCompositionParameters() picks
+  const parsedTheme = rocketSchema.safeParse(theme);
+  const inputProps = computeCompositionParameters(
+    stats,
+    parsedTheme.success ? parsedTheme.data : null,
+  );
+
+  return { stats, inputProps };
+};
@@ -0,0 +1,127 @@
+import React from "react";
+import { interpolate, useCurrentFrame } from "remotion";
+
+export const GRID_ROWS = 7;
+
+const CELL_SIZE = 16;
+const CELL_GAP = 3;
+
+const EMPTY_COLOR = "rgba(255, 255, 255, 0.08)";
+// Same scale as github.com's dark mode calendar
+const LEVEL_COLORS = ["#0e4429", "#006d32", "#26a641", "#39d353"];
+const STREAK_COLOR = "#FFE066";
+
+const getLevelColor = (count: number, max: number) => {
+  if (count === 0 || max === 0) {
+    return EMPTY_COLOR;
+  }
+
+  const level = Math.min(
+    LEVEL_COLORS.length - 1,
+    Math.floor((count / max) * LEVEL_COLORS.length),
+  );
+  return LEVEL_COLORS[level];
+};
+
+/**
+ * GitHub-style calendar: one column per week, one row per weekday from
+ * Sunday to Saturday. January 1st starts in the row of its weekday, so the
+ * first column is partial and the year spans 53 or 54 columns.
+ *
+ * - Cells pop in one after the other during `fillDuration`
+ * - From `highlightDelay` on, the longest streak lights up day by day while
+ *   every other cell dims
+ */
+export const ContributionGrid: React.FC<{
+  readonly year: number;
+  readonly contributionData: number[];
+  readonly streak: { start: number; end: number } | null;
+  readonly fillDuration: number;
+  readonly highlightDelay: number;
+  readonly highlightDuration: number;
+}> = ({
+  year,
+  contributionData,
+  streak,
+  fillDuration,
+  highlightDelay,
+  highlightDuration,
+}) => {
+  const frame = useCurrentFrame();
+
+  const days = contributionData;
+  // 0 is Sunday, the first row
+  const firstWeekday = new Date(Date.UTC(year, 0, 1)).getUTCDay();
+  const max = Math.max(0, ...days);
+
+  const dim = interpolate(
+    frame,
+    [highlightDelay, highlightDelay + 10],
+    [1, 0.35],
+    {
+      extrapolateLeft: "clamp",
+      extrapolateRight: "clamp",
+    },
+  );
+
+  const streakLength = streak ? streak.end - streak.start + 1 : 0;
+  const highlightedDays = interpolate(
+    frame,
+    [highlightDelay, highlightDelay + highlightDuration],
+    [0, streakLength],
+    {
+      extrapolateLeft: "clamp",
+      extrapolateRight: "clamp",
+    },
+  );
+
+  return (
+    <div
+      style={{
+        display: "grid",
+        gridTemplateRows: `repeat(${GRID_ROWS}, ${CELL_SIZE}px)`,
+        gridAutoFlow: "column",
+        gridAutoColumns: CELL_SIZE,
+        gap: CELL_GAP,
+      }}
+    >
+      {days.map((count, i) => {
+        const appear = interpolate(
+          frame,
+          [
+            (i / days.length) * fillDuration,
+            (i / days.length) * fillDuration + 6,
+          ],
+          [0, 1],
+          {
+            extrapolateLeft: "clamp",
+            extrapolateRight: "clamp",
+          },
+        );
+
+        const inStreak =
+          streak !== null && i >= streak.start && i <= streak.end;
+        const highlighted = inStreak && i - streak.start < highlightedDays;
+
+        return (
+          <div
+            key={i}
+            style={{
+              // The following days flow on from here
+              gridRowStart: i === 0 ? firstWeekday + 1 : undefined,
+              width: CELL_SIZE,
+              height: CELL_SIZE,
+              borderRadius: 3,
+              backgroundColor: highlighted
+                ? STREAK_COLOR
+                : getLevelColor(count, max),
+              boxShadow: highlighted ? `0 0 10px ${STREAK_COLOR}` : undefined,
+              opacity: appear * (inStreak ? 1 : dim),
+              transform: `scale(${appear})`,
+            }}
+          />
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+/**
+ * CONTRIBUTIONS SCENE
+ *
+ * A GitHub-style contribution calendar fills in while the total counts
+ * up, then the longest streak lights up day by day.
+ *
+ * Timeline:
+ * 0 ──────► FILL_DURATION ──────► STREAK_DELAY ──────► end
+ *   grid fills + count up    pause     streak highlight + label
+ */
+
+import React, { useMemo } from "react";
+import {
+  AbsoluteFill,
+  Audio,
+  Easing,
+  interpolate,
+  spring,
+  staticFile,
+  useCurrentFrame,
+  useVideoConfig,
+} from "remotion";
+import type { z } from "zod";
+import { compositionSchema } from "../../src/config";
+import { getLongestStreakRange } from "../../src/stats/contributions";
+import { Gradient } from "../Gradients/NativeGradient";
+import { Noise } from "../Noise";
+import { isMobileDevice } from "../Opening/devices";
+import { getRocketTheme } from "../rocket-themes";
+import { ContributionGrid } from "./ContributionGrid";
+
+export const CONTRIBUTIONS_SCENE_LENGTH = 240;
+
+const FILL_DURATION = 90;
+const STREAK_DELAY = 110;
+const STREAK_HIGHLIGHT_DURATION = 40;
+const EXIT_DURATION = 20;
+
+const CONTRIBUTION_SOUND = staticFile("contribution-rocket.mp3");
+
+export const contributionsSceneSchema = compositionSchema.pick({
+  year: true,
+  contributionData: true,
+  totalContributions: true,
+  longestStreak: true,
+  rocket: true,
+});
+
+export const ContributionsScene: React.FC<
+  z.infer<typeof contributionsSceneSchema>
+> = ({ year, contributionData, totalContributions, longestStreak, rocket }) => {
+  const frame = useCurrentFrame();
+  const { fps, durationInFrames } = useVideoConfig();
+
+  const streak = useMemo(
+    () => getLongestStreakRange(contributionData),
+    [contributionData],
+  );
+
+  const count = interpolate(
+    frame,
+    [0, FILL_DURATION],
+    [0, totalContributions],
+    {
+      easing: Easing.out(Easing.cubic),
+      extrapolateLeft: "clamp",
+      extrapolateRight: "clamp",
+    },
+  );
+
+  const streakLabel = spring({
+    fps,
+    frame,
+    delay: STREAK_DELAY + STREAK_HIGHLIGHT_DURATION / 2,
+    config: {
+      damping: 200,
+    },
+  });
+
+  const exit = interpolate(
+    frame,
+    [durationInFrames - EXIT_DURATION, durationInFrames],
+    [0, 1],
+    {
+      extrapolateLeft: "clamp",
+      extrapolateRight: "clamp",
+    },
+  );
+
+  return (
+    <AbsoluteFill>
+      {isMobileDevice() ? null : <Audio src={CONTRIBUTION_SOUND} />}
+      <AbsoluteFill>
+        <Gradient gradient={getRocketTheme(rocket).gradient} />
+        <Noise translateX={0} translateY={0} rocket={rocket} />
+      </AbsoluteFill>
+      <AbsoluteFill
+        style={{
+          justifyContent: "center",
+          alignItems: "center",
+          gap: 50,
+          color: "white",
+          fontFamily: "Mona Sans",
+          opacity: 1 - exit,
+        }}
+      >
+        <div style={{ textAlign: "center" }}>
+          <div
+            style={{
+              fontSize: 140,
+              fontWeight: "bold",
+              lineHeight: 1,
+              fontVariantNumeric: "tabular-nums",
+            }}
+          >
+            {Math.round(count)}
+          </div>
+          <div style={{ fontSize: 40, opacity: 0.8 }}>contributions</div>
+        </div>
+        <ContributionGrid
+          year={year}
+          contributionData={contributionData}
+          streak={streak}
+          fillDuration={FILL_DURATION}
+          highlightDelay={STREAK_DELAY}
+          highlightDuration={STREAK_HIGHLIGHT_DURATION}
+        />
+        <div
+          style={{
+            fontSize: 45,
+            fontWeight: "bold",
+            opacity: streak ? streakLabel : 0,
+            transform: `translateY(${(1 - streakLabel) * 30}px)`,
+          }}
+        >
+          Longest streak: {longestStreak} {longestStreak === 1 ? "day" : "days"}
+        </div>
+      </AbsoluteFill>
+    </AbsoluteFill>
+  );
+};
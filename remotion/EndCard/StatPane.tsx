@@ -0,0 +1,50 @@
+import React from "react";
+import { spring, useCurrentFrame, useVideoConfig } from "remotion";
+import type { StorySlot } from "./story-layout";
+
+/**
+ * Content placed on top of one of the panes printed on the story card.
+ * Pops in after `delay` frames.
+ */
+export const StatPane: React.FC<{
+  readonly slot: StorySlot;
+  readonly scale: number;
+  readonly delay: number;
+  readonly children: React.ReactNode;
+}> = ({ slot, scale, delay, children }) => {
+  const frame = useCurrentFrame();
+  const { fps } = useVideoConfig();
+
+  const enter = spring({
+    fps,
+    frame,
+    delay,
+    config: {
+      damping: 14,
+    },
+  });
+
+  return (
+    <div
+      style={{
+        position: "absolute",
+        left: slot.left * scale,
+        top: slot.top * scale,
+        width: slot.width * scale,
+        height: slot.height * scale,
+        display: "flex",
+        flexDirection: "column",
+        justifyContent: "center",
+        alignItems: "center",
+        gap: 4,
+        color: "white",
+        fontFamily: "Mona Sans",
+        textAlign: "center",
+        opacity: Math.min(1, enter),
+        transform: `scale(${enter})`,
+      }}
+    >
+      {children}
+    </div>
+  );
+};
@@ -0,0 +1,297 @@
+/**
+ * END CARD
+ *
+ * The closing scene: a shareable Instagram-story card summarizing the year,
+ * with the user's login, the key stats and a call to action.
+ *
+ * Timeline:
+ * 0 ──────► PANES_START ──────► CELEBRATION_START ──────► end
+ *   card flies in    stats pop in one by one    celebration, hold
+ *
+ * It has no exit animation so that the last frame of any video ending with
+ * it (and any thumbnail taken from there) shows the complete card.
+ */
+
+import React from "react";
+import {
+  AbsoluteFill,
+  Img,
+  interpolate,
+  spring,
+  staticFile,
+  useCurrentFrame,
+  useVideoConfig,
+} from "remotion";
+import type { z } from "zod";
+import { compositionSchema } from "../../src/config";
+import { getPlanetImage } from "../Planet/planets";
+import { LanguageIcon } from "../TopLanguages/LanguageIcon";
+import { StatPane } from "./StatPane";
+import {
+  STORY_BACKGROUND_IMAGE,
+  STORY_CARD_HEIGHT,
+  STORY_CARD_IMAGE,
+  STORY_CARD_WIDTH,
+  STORY_SLOTS,
+} from "./story-layout";
+
+export const END_CARD_LENGTH = 180;
+
+const PANES_START = 15;
+const PANE_STAGGER = 6;
+const CELEBRATION_START = 60;
+
+const CELEBRATION_IMAGE = staticFile("celebration.png");
+// Same colors as the #GitHubUnwrapped button printed on the card
+const CALL_TO_ACTION_GRADIENT = "linear-gradient(90deg, #7475FD, #0FE3EA)";
+
+export const endCardSchema = compositionSchema.pick({
+  login: true,
+  starsGiven: true,
+  totalPullRequests: true,
+  issuesOpened: true,
+  issuesClosed: true,
+  totalContributions: true,
+  topLanguages: true,
+  planet: true,
+  callToAction: true,
+});
+
+const Value: React.FC<{
+  readonly scale: number;
+  readonly children: React.ReactNode;
+}> = ({ scale, children }) => {
+  return (
+    <div style={{ fontSize: 100 * scale, fontWeight: "bold", lineHeight: 1 }}>
+      {children}
+    </div>
+  );
+};
+
+const Label: React.FC<{
+  readonly scale: number;
+  readonly children: React.ReactNode;
+}> = ({ scale, children }) => {
+  return <div style={{ fontSize: 40 * scale, opacity: 0.7 }}>{children}</div>;
+};
+
+export const EndCardScene: React.FC<z.infer<typeof endCardSchema>> = ({
+  login,
+  starsGiven,
+  totalPullRequests,
+  issuesOpened,
+  issuesClosed,
+  totalContributions,
+  topLanguages,
+  planet,
+  callToAction,
+}) => {
+  const frame = useCurrentFrame();
+  const { fps, width, height } = useVideoConfig();
+
+  // Fit the card into 90% of the frame, whatever the aspect ratio
+  const scale = Math.min(
+    (height * 0.9) / STORY_CARD_HEIGHT,
+    (width * 0.9) / STORY_CARD_WIDTH,
+  );
+  const topLanguage = topLanguages ? topLanguages.language1 : null;
+
+  const cardEnter = spring({
+    fps,
+    frame,
+    config: {
+      damping: 200,
+    },
+  });
+
+  const celebration = spring({
+    fps,
+    frame,
+    delay: CELEBRATION_START,
+    config: {
+      damping: 10,
+    },
+  });
+
+  const backgroundOpacity = interpolate(frame, [0, 15], [0, 1], {
+    extrapolateLeft: "clamp",
+    extrapolateRight: "clamp",
+  });
+
+  const panes: Array<{
+    slot: keyof typeof STORY_SLOTS;
+    content: React.ReactNode;
+  }> = [
+    {
+      slot: "stars",
+      content: (
+        <>
+          <Value scale={scale}>{starsGiven}</Value>
+          <Label scale={scale}>stars given</Label>
+        </>
+      ),
+    },
+    {
+      slot: "pullRequests",
+      content: (
+        <>
+          <Value scale={scale}>{totalPullRequests}</Value>
+          <Label scale={scale}>pull requests</Label>
+        </>
+      ),
+    },
+    {
+      slot: "topLanguage",
+      content: (
+        <div
+          style={{
+            display: "flex",
+            flexDirection: "row",
+            alignItems: "center",
+            gap: 30 * scale,
+          }}
+        >
+          {topLanguage ? (
+            <LanguageIcon language={topLanguage} size={90 * scale} />
+          ) : null}
+          <div style={{ textAlign: "left" }}>
+            <div style={{ fontSize: 60 * scale, fontWeight: "bold" }}>
+              {topLanguage ? topLanguage.name : "-"}
+            </div>
+            <Label scale={scale}>top language</Label>
+          </div>
+        </div>
+      ),
+    },
+    {
+      slot: "planet",
+      content: (
+        <div
+          style={{
+            display: "flex",
+            flexDirection: "row",
+            alignItems: "center",
+            gap: 30 * scale,
+          }}
+        >
+          <Img
+            src={getPlanetImage(planet)}
+            style={{ width: 100 * scale, height: 100 * scale }}
+          />
+          <div style={{ textAlign: "left" }}>
+            <div style={{ fontSize: 60 * scale, fontWeight: "bold" }}>
+              {planet}
+            </div>
+            <Label scale={scale}>planet</Label>
+          </div>
+        </div>
+      ),
+    },
+    {
+      slot: "issues",
+      content: (
+        <>
+          <Value scale={scale}>{issuesOpened + issuesClosed}</Value>
+          <Label scale={scale}>issues, {issuesClosed} closed</Label>
+        </>
+      ),
+    },
+    {
+      slot: "contributions",
+      content: (
+        <>
+          <Value scale={scale}>{totalContributions}</Value>
+          <Label scale={scale}>contributions</Label>
+        </>
+      ),
+    },
+  ];
+
+  return (
+    <AbsoluteFill style={{ backgroundColor: "black" }}>
+      <Img
+        src={STORY_BACKGROUND_IMAGE}
+        style={{
+          position: "absolute",
+          width: "100%",
+          height: "100%",
+          objectFit: "cover",
+          opacity: backgroundOpacity,
+        }}
+      />
+      <AbsoluteFill style={{ justifyContent: "center", alignItems: "center" }}>
+        <div
+          style={{
+            position: "relative",
+            width: STORY_CARD_WIDTH * scale,
+            height: STORY_CARD_HEIGHT * scale,
+            transform: `translateY(${(1 - cardEnter) * height}px)`,
+          }}
+        >
+          <Img
+            src={STORY_CARD_IMAGE}
+            style={{ position: "absolute", width: "100%", height: "100%" }}
+          />
+          <StatPane slot={STORY_SLOTS.title} scale={scale} delay={PANES_START}>
+            <div
+              style={{
+                display: "flex",
+                flexDirection: "row",
+                alignItems: "center",
+                gap: 30 * scale,
+              }}
+            >
+              <div style={{ textAlign: "left" }}>
+                <Label scale={scale}>My year on GitHub</Label>
+                <div style={{ fontSize: 80 * scale, fontWeight: "bold" }}>
+                  @{login}
+                </div>
+              </div>
+              <Img
+                src={CELEBRATION_IMAGE}
+                style={{
+                  width: 140 * scale,
+                  height: 140 * scale,
+                  transform: `scale(${celebration}) rotate(${
+                    (1 - celebration) * -45
+                  }deg)`,
+                }}
+              />
+            </div>
+          </StatPane>
+          {panes.map((pane, i) => (
+            <StatPane
+              key={pane.slot}
+              slot={STORY_SLOTS[pane.slot]}
+              scale={scale}
+              delay={PANES_START + (i + 1) * PANE_STAGGER}
+            >
+              {pane.content}
+            </StatPane>
+          ))}
+          <StatPane
+            slot={STORY_SLOTS.callToAction}
+            scale={scale}
+            delay={PANES_START + (panes.length + 1) * PANE_STAGGER}
+          >
+            <div
+              style={{
+                width: "100%",
+                height: "100%",
+                borderRadius: 20 * scale,
+                background: CALL_TO_ACTION_GRADIENT,
+                display: "flex",
+                justifyContent: "center",
+                alignItems: "center",
+                fontSize: 56 * scale,
+                fontWeight: "bold",
+              }}
+            >
+              {callToAction}
+            </div>
+          </StatPane>
+        </div>
+      </AbsoluteFill>
+    </AbsoluteFill>
+  );
+};
@@ -0,0 +1,33 @@
+import { staticFile } from "remotion";
+
+export const STORY_CARD_IMAGE = staticFile("ig-story.png");
+export const STORY_BACKGROUND_IMAGE = staticFile("ig-story-background.png");
+
+export const STORY_CARD_WIDTH = 935;
+export const STORY_CARD_HEIGHT = 1473;
+
+export type StorySlot = {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+};
+
+const slot = (x1: number, y1: number, x2: number, y2: number): StorySlot => {
+  return { left: x1, top: y1, width: x2 - x1, height: y2 - y1 };
+};
+
+/**
+ * Position of the empty panes printed on ig-story.png, in pixels of the
+ * original image. Scale them with the card when rendering.
+ */
+export const STORY_SLOTS = {
+  title: slot(32, 60, 906, 290),
+  stars: slot(32, 310, 455, 573),
+  pullRequests: slot(483, 310, 906, 573),
+  topLanguage: slot(32, 606, 754, 742),
+  planet: slot(236, 774, 906, 910),
+  issues: slot(40, 942, 461, 1204),
+  contributions: slot(488, 942, 909, 1204),
+  callToAction: slot(26, 1252, 900, 1367),
+} satisfies Record<string, StorySlot>;
@@ -0,0 +1,72 @@
+import React from "react";
+import {
+  AbsoluteFill,
+  Img,
+  interpolate,
+  staticFile,
+  useCurrentFrame,
+} from "remotion";
+import type { UfoPlacement } from "./ufo-layout";
+import { EXPLOSION_DURATION } from "./ufo-layout";
+
+export const UFO_IMAGE = staticFile("ufo.png");
+
+export const UFO_WIDTH = 120;
+const UFO_HEIGHT = (UFO_WIDTH / 322) * 208;
+
+export const Ufo: React.FC<{
+  readonly ufo: UfoPlacement;
+}> = ({ ufo }) => {
+  const frame = useCurrentFrame();
+
+  const hover = Math.sin((frame + ufo.hoverOffset) / 15) * 8;
+
+  const explosion =
+    ufo.explodeAt === null
+      ? 0
+      : interpolate(
+          frame,
+          [ufo.explodeAt, ufo.explodeAt + EXPLOSION_DURATION],
+          [0, 1],
+          {
+            extrapolateLeft: "clamp",
+            extrapolateRight: "clamp",
+          },
+        );
+
+  if (explosion === 1) {
+    return null;
+  }
+
+  return (
+    <AbsoluteFill
+      style={{
+        left: ufo.x - UFO_WIDTH / 2,
+        top: ufo.y - UFO_HEIGHT / 2 + hover,
+        width: UFO_WIDTH,
+        height: UFO_HEIGHT,
+      }}
+    >
+      <Img
+        src={UFO_IMAGE}
+        style={{
+          width: UFO_WIDTH,
+          height: UFO_HEIGHT,
+          opacity: 1 - explosion,
+          transform: `scale(${1 + explosion * 0.6}) rotate(${explosion * 25}deg)`,
+        }}
+      />
+      {explosion > 0 ? (
+        <AbsoluteFill
+          style={{
+            borderRadius: "50%",
+            background:
+              "radial-gradient(circle, #FFF6C2 0%, #FFB347 40%, rgba(255, 80, 0, 0) 70%)",
+            opacity: 1 - explosion,
+            transform: `scale(${explosion * 2.5})`,
+          }}
+        />
+      ) : null}
+    </AbsoluteFill>
+  );
+};
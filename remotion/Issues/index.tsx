@@ -0,0 +1,258 @@
+/**
+ * ISSUES SCENE
+ *
+ * A sky full of UFOs, one per issue. The rocket at the bottom shoots down
+ * one UFO per closed issue while the counters below keep track.
+ *
+ * Timeline:
+ * 0 ──────► SHOOT_START ──────► last explosion ──────► end
+ *   UFOs hover        shots + explosions        hold + fade out
+ *
+ * Placement is seeded by the login, so re-rendering a user's video always
+ * produces the same sky.
+ */
+
+import React, { useMemo } from "react";
+import type { CalculateMetadataFunction } from "remotion";
+import {
+  AbsoluteFill,
+  Audio,
+  Img,
+  interpolate,
+  Sequence,
+  spring,
+  staticFile,
+  useCurrentFrame,
+  useVideoConfig,
+} from "remotion";
+import type { z } from "zod";
+import type { Rocket } from "../../src/config";
+import { compositionSchema } from "../../src/config";
+import { Gradient } from "../Gradients/NativeGradient";
+import { Noise } from "../Noise";
+import {
+  PANE_BACKGROUND,
+  PANE_BORDER,
+  PANE_TEXT_COLOR,
+} from "../Opening/constants";
+import { isMobileDevice } from "../Opening/devices";
+import { getRocketTheme } from "../rocket-themes";
+import { Ufo } from "./Ufo";
+import {
+  getIssuesSceneDuration,
+  getUfoLayout,
+  SHOT_TRAVEL,
+} from "./ufo-layout";
+
+export { getIssuesSceneDuration } from "./ufo-layout";
+
+const EXIT_DURATION = 20;
+
+const SHOT_SOUND = staticFile("shot.mp3");
+const EXPLOSION_SOUND = staticFile("ufo-explode-1.mp3");
+
+const ROCKET_WIDTH = 150;
+const ROCKET_HEIGHT = (ROCKET_WIDTH / 690) * 1578;
+// How far the rocket sticks out of the bottom edge
+const ROCKET_VISIBLE = 220;
+
+const getFrontRocketSource = (rocket: Rocket) => {
+  return staticFile(`rocket-front-${rocket}.png`);
+};
+
+export const issuesSceneSchema = compositionSchema.pick({
+  login: true,
+  issuesOpened: true,
+  issuesClosed: true,
+  rocket: true,
+});
+
+type IssuesSceneProps = z.infer<typeof issuesSceneSchema>;
+
+export const calculateIssuesSceneMetadata: CalculateMetadataFunction<
+  IssuesSceneProps
+> = ({ props }) => {
+  return {
+    durationInFrames: getIssuesSceneDuration(props),
+  };
+};
+
+const Counter: React.FC<{
+  readonly label: string;
+  readonly value: number;
+}> = ({ label, value }) => {
+  return (
+    <div
+      style={{
+        background: PANE_BACKGROUND,
+        border: PANE_BORDER,
+        borderRadius: 30,
+        padding: "20px 40px",
+        color: PANE_TEXT_COLOR,
+        textAlign: "center",
+        minWidth: 220,
+      }}
+    >
+      <div
+        style={{
+          fontSize: 80,
+          fontWeight: "bold",
+          lineHeight: 1,
+          fontVariantNumeric: "tabular-nums",
+        }}
+      >
+        {value}
+      </div>
+      <div style={{ fontSize: 32 }}>{label}</div>
+    </div>
+  );
+};
+
+export const IssuesScene: React.FC<IssuesSceneProps> = ({
+  login,
+  issuesOpened,
+  issuesClosed,
+  rocket,
+}) => {
+  const frame = useCurrentFrame();
+  const { fps, width, height, durationInFrames } = useVideoConfig();
+
+  const ufos = useMemo(
+    () => getUfoLayout({ login, issuesOpened, issuesClosed, width, height }),
+    [login, issuesOpened, issuesClosed, width, height],
+  );
+  const shotDown = ufos.filter((ufo) => ufo.explodeAt !== null);
+
+  // The UFOs only represent a sample, so the closed counter advances
+  // proportionally with each explosion
+  const exploded = shotDown.filter(
+    (ufo) => ufo.explodeAt !== null && frame >= ufo.explodeAt,
+  ).length;
+  const closedCount =
+    shotDown.length === 0
+      ? issuesClosed
+      : Math.round((exploded / shotDown.length) * issuesClosed);
+
+  const noseX = width / 2;
+  const noseY = height - ROCKET_VISIBLE;
+
+  const entrance = spring({
+    fps,
+    frame,
+    config: {
+      damping: 200,
+    },
+  });
+
+  const exit = interpolate(
+    frame,
+    [durationInFrames - EXIT_DURATION, durationInFrames],
+    [0, 1],
+    {
+      extrapolateLeft: "clamp",
+      extrapolateRight: "clamp",
+    },
+  );
+
+  return (
+    <AbsoluteFill>
+      <AbsoluteFill>
+        <Gradient gradient={getRocketTheme(rocket).gradient} />
+        <Noise translateX={0} translateY={0} rocket={rocket} />
+      </AbsoluteFill>
+      {isMobileDevice()
+        ? null
+        : shotDown.map((ufo, i) => {
+            if (ufo.explodeAt === null) {
+              return null;
+            }
+
+            return (
+              <React.Fragment key={i}>
+                <Sequence from={ufo.explodeAt - SHOT_TRAVEL} layout="none">
+                  <Audio src={SHOT_SOUND} volume={0.4} />
+                </Sequence>
+                <Sequence from={ufo.explodeAt} layout="none">
+                  <Audio src={EXPLOSION_SOUND} volume={0.5} />
+                </Sequence>
+              </React.Fragment>
+            );
+          })}
+      <AbsoluteFill style={{ opacity: 1 - exit }}>
+        <AbsoluteFill
+          style={{
+            opacity: entrance,
+            transform: `translateY(${(1 - entrance) * -80}px)`,
+          }}
+        >
+          {ufos.map((ufo, i) => (
+            <Ufo key={i} ufo={ufo} />
+          ))}
+        </AbsoluteFill>
+        <svg
+          viewBox={`0 0 ${width} ${height}`}
+          style={{ position: "absolute", width, height }}
+        >
+          {shotDown.map((ufo, i) => {
+            if (ufo.explodeAt === null) {
+              return null;
+            }
+
+            const progress = interpolate(
+              frame,
+              [ufo.explodeAt - SHOT_TRAVEL, ufo.explodeAt],
+              [0, 1],
+              {
+                extrapolateLeft: "clamp",
+                extrapolateRight: "clamp",
+              },
+            );
+            if (progress === 0 || progress === 1) {
+              return null;
+            }
+
+            // A short bolt traveling from the nose towards the UFO
+            const tail = Math.max(0, progress - 0.35);
+
+            return (
+              <line
+                key={i}
+                x1={noseX + (ufo.x - noseX) * tail}
+                y1={noseY + (ufo.y - noseY) * tail}
+                x2={noseX + (ufo.x - noseX) * progress}
+                y2={noseY + (ufo.y - noseY) * progress}
+                stroke="#FF5E5E"
+                strokeWidth={8}
+                strokeLinecap="round"
+              />
+            );
+          })}
+        </svg>
+        <Img
+          src={getFrontRocketSource(rocket)}
+          style={{
+            position: "absolute",
+            left: noseX - ROCKET_WIDTH / 2,
+            top: noseY,
+            width: ROCKET_WIDTH,
+            height: ROCKET_HEIGHT,
+          }}
+        />
+        <AbsoluteFill
+          style={{
+            flexDirection: "row",
+            justifyContent: "center",
+            alignItems: "flex-end",
+            paddingBottom: 60,
+            gap: ROCKET_WIDTH + 120,
+            fontFamily: "Mona Sans",
+            opacity: entrance,
+          }}
+        >
+          <Counter label="open" value={issuesOpened} />
+          <Counter label="closed" value={closedCount} />
+        </AbsoluteFill>
+      </AbsoluteFill>
+    </AbsoluteFill>
+  );
+};
@@ -0,0 +1,104 @@
+import { random } from "remotion";
+
+// More UFOs than this get crowded and take too long to shoot down
+const MAX_UFOS = 30;
+const GRID_COLUMNS = 6;
+const GRID_ROWS = 5;
+
+export const SHOOT_START = 45;
+export const SHOT_INTERVAL = 8;
+export const SHOT_TRAVEL = 6;
+export const EXPLOSION_DURATION = 15;
+const END_HOLD = 75;
+
+export type UfoPlacement = {
+  x: number;
+  y: number;
+  hoverOffset: number;
+  // null for UFOs representing issues that are still open
+  explodeAt: number | null;
+};
+
+const getDisplayedCounts = ({
+  issuesOpened,
+  issuesClosed,
+}: {
+  issuesOpened: number;
+  issuesClosed: number;
+}) => {
+  const total = issuesOpened + issuesClosed;
+  const displayed = Math.min(total, MAX_UFOS);
+  // At least one shoot-down as soon as an issue was closed, also when
+  // rounding the share of closed issues would give 0
+  const closed =
+    total === 0
+      ? 0
+      : Math.max(
+          issuesClosed > 0 ? 1 : 0,
+          Math.round((issuesClosed / total) * displayed),
+        );
+
+  return { displayed, closed };
+};
+
+/**
+ * Deterministic UFO placement: the same login always gets the same sky.
+ * UFOs sit on a jittered grid in the upper part of the frame so they
+ * never overlap, with the grid slots shuffled by `random(login)`.
+ */
+export const getUfoLayout = ({
+  login,
+  issuesOpened,
+  issuesClosed,
+  width,
+  height,
+}: {
+  login: string;
+  issuesOpened: number;
+  issuesClosed: number;
+  width: number;
+  height: number;
+}): UfoPlacement[] => {
+  const { displayed, closed } = getDisplayedCounts({
+    issuesOpened,
+    issuesClosed,
+  });
+
+  const cellWidth = width / GRID_COLUMNS;
+  const cellHeight = (height * 0.55) / GRID_ROWS;
+
+  const slots = new Array(GRID_COLUMNS * GRID_ROWS)
+    .fill(true)
+    .map((_, slot) => slot)
+    .sort(
+      (a, b) => random(`${login}-slot-${a}`) - random(`${login}-slot-${b}`),
+    );
+
+  return slots.slice(0, displayed).map((slot, i) => {
+    const column = slot % GRID_COLUMNS;
+    const row = Math.floor(slot / GRID_COLUMNS);
+
+    return {
+      x: (column + 0.2 + random(`${login}-x-${i}`) * 0.6) * cellWidth,
+      y: 60 + (row + 0.2 + random(`${login}-y-${i}`) * 0.6) * cellHeight,
+      hoverOffset: random(`${login}-hover-${i}`) * 100,
+      explodeAt:
+        i < closed ? SHOOT_START + i * SHOT_INTERVAL + SHOT_TRAVEL : null,
+    };
+  });
+};
+
+export const getIssuesSceneDuration = (counts: {
+  issuesOpened: number;
+  issuesClosed: number;
+}) => {
+  const { closed } = getDisplayedCounts(counts);
+
+  return (
+    SHOOT_START +
+    Math.max(0, closed - 1) * SHOT_INTERVAL +
+    SHOT_TRAVEL +
+    EXPLOSION_DURATION +
+    END_HOLD
+  );
+};
@@ -0,0 +1,181 @@
+/**
+ * Vertical (1080×1920, stories) and landscape (1920×1080) versions of the
+ * Unwrapped video and of every scene, one folder per layout.
+ *
+ * The scenes adapt themselves: most lay out relative to `useVideoConfig()`,
+ * and the ones positioned in absolute pixels render inside a `FixedStage`.
+ * Inside the stage, the tablet, its productivity charts and the cockpit HUD
+ * are rearranged per layout with `useVideoLayout()`, the rest is scaled.
+ */
+
+import React from "react";
+import { Composition, Folder } from "remotion";
+import { compositionSchema } from "../src/config";
+import type { VideoLayout } from "../types/constants";
+import {
+  TOP_LANGUAGES_DURATION,
+  VIDEO_FPS,
+  VIDEO_LAYOUTS,
+} from "../types/constants";
+import {
+  CONTRIBUTIONS_SCENE_LENGTH,
+  ContributionsScene,
+  contributionsSceneSchema,
+} from "./Contributions";
+import { END_CARD_LENGTH, EndCardScene, endCardSchema } from "./EndCard";
+import {
+  IssuesScene,
+  calculateIssuesSceneMetadata,
+  issuesSceneSchema,
+} from "./Issues";
+import {
+  LONGEST_STREAK_SCENE_LENGTH,
+  LongestStreakScene,
+  longestStreakSceneSchema,
+} from "./LongestStreak";
+import { OPENING_SCENE_LENGTH, OpeningScene } from "./Opening";
+import { openingTitleSchema } from "./Opening/TitleImage";
+import { PLANET_SCENE_LENGTH, PlanetScene, planetSceneSchema } from "./Planet";
+import {
+  PULL_REQUESTS_SCENE_LENGTH,
+  PullRequestsScene,
+  pullRequestsSceneSchema,
+} from "./PullRequests";
+import {
+  MOCK_COMPOSITION_PARAMETERS,
+  MOCK_TOP_LANGUAGES,
+} from "./test-scenes/components/MockData";
+import {
+  StarsAndProductivityReplica,
+  calculateStarsAndProductivityMetadata,
+  starsAndProductivityDefaultProps,
+  starsAndProductivitySchema,
+} from "./test-scenes/StarsAndProductivityReplica";
+import { TopLanguagesScene, topLanguagesSceneSchema } from "./TopLanguages";
+import { Unwrapped, calculateUnwrappedMetadata } from "./Unwrapped";
+
+const folderNames: Record<Exclude<VideoLayout, "square">, string> = {
+  vertical: "Vertical",
+  landscape: "Landscape",
+};
+
+export const LayoutVariants: React.FC<{
+  readonly layout: Exclude<VideoLayout, "square">;
+}> = ({ layout }) => {
+  const { width, height } = VIDEO_LAYOUTS[layout];
+  const name = folderNames[layout];
+
+  // The scene schemas pick from compositionSchema, so the full mock
+  // parameters work as default props for all of them
+  return (
+    <Folder name={name}>
+      <Composition
+        id={`Unwrapped-${name}`}
+        component={Unwrapped}
+        schema={compositionSchema}
+        calculateMetadata={calculateUnwrappedMetadata}
+        fps={VIDEO_FPS}
+        width={width}
+        height={height}
+        defaultProps={MOCK_COMPOSITION_PARAMETERS}
+      />
+      <Composition
+        id={`OpeningScene-${name}`}
+        component={OpeningScene}
+        schema={openingTitleSchema}
+        durationInFrames={OPENING_SCENE_LENGTH}
+        fps={VIDEO_FPS}
+        width={width}
+        height={height}
+        defaultProps={{
+          login: MOCK_COMPOSITION_PARAMETERS.login,
+          startAngle: MOCK_COMPOSITION_PARAMETERS.openingSceneStartAngle,
+          rocket: MOCK_COMPOSITION_PARAMETERS.rocket,
+        }}
+      />
+      <Composition
+        id={`StarsAndProductivity-${name}`}
+        component={StarsAndProductivityReplica}
+        schema={starsAndProductivitySchema}
+        calculateMetadata={calculateStarsAndProductivityMetadata}
+        fps={VIDEO_FPS}
+        width={width}
+        height={height}
+        defaultProps={starsAndProductivityDefaultProps}
+      />
+      <Composition
+        id={`PullRequests-${name}`}
+        component={PullRequestsScene}
+        schema={pullRequestsSceneSchema}
+        durationInFrames={PULL_REQUESTS_SCENE_LENGTH}
+        fps={VIDEO_FPS}
+        width={width}
+        height={height}
+        defaultProps={MOCK_COMPOSITION_PARAMETERS}
+      />
+      <Composition
+        id={`TopLanguages-${name}`}
+        component={TopLanguagesScene}
+        schema={topLanguagesSceneSchema}
+        durationInFrames={TOP_LANGUAGES_DURATION}
+        fps={VIDEO_FPS}
+        width={width}
+        height={height}
+        defaultProps={{
+          ...MOCK_TOP_LANGUAGES,
+          rocket: MOCK_COMPOSITION_PARAMETERS.rocket,
+        }}
+      />
+      <Composition
+        id={`Contributions-${name}`}
+        component={ContributionsScene}
+        schema={contributionsSceneSchema}
+        durationInFrames={CONTRIBUTIONS_SCENE_LENGTH}
+        fps={VIDEO_FPS}
+        width={width}
+        height={height}
+        defaultProps={MOCK_COMPOSITION_PARAMETERS}
+      />
+      <Composition
+        id={`LongestStreak-${name}`}
+        component={LongestStreakScene}
+        schema={longestStreakSceneSchema}
+        durationInFrames={LONGEST_STREAK_SCENE_LENGTH}
+        fps={VIDEO_FPS}
+        width={width}
+        height={height}
+        defaultProps={MOCK_COMPOSITION_PARAMETERS}
+      />
+      <Composition
+        id={`Issues-${name}`}
+        component={IssuesScene}
+        schema={issuesSceneSchema}
+        calculateMetadata={calculateIssuesSceneMetadata}
+        fps={VIDEO_FPS}
+        width={width}
+        height={height}
+        defaultProps={MOCK_COMPOSITION_PARAMETERS}
+      />
+      <Composition
+        id={`PlanetReveal-${name}`}
+        component={PlanetScene}
+        schema={planetSceneSchema}
+        durationInFrames={PLANET_SCENE_LENGTH}
+        fps={VIDEO_FPS}
+        width={width}
+        height={height}
+        defaultProps={MOCK_COMPOSITION_PARAMETERS}
+      />
+      <Composition
+        id={`EndCard-${name}`}
+        component={EndCardScene}
+        schema={endCardSchema}
+        durationInFrames={END_CARD_LENGTH}
+        fps={VIDEO_FPS}
+        width={width}
+        height={height}
+        defaultProps={MOCK_COMPOSITION_PARAMETERS}
+      />
+    </Folder>
+  );
+};
@@ -0,0 +1,179 @@
+/**
+ * LONGEST STREAK SCENE
+ *
+ * The whole year is drawn as a line, then the longest streak is traced
+ * along it in yellow while a seven-segment display counts the days.
+ *
+ * Timeline:
+ * 0 ──────► YEAR_DRAW ──────► STREAK_START ──────► STREAK_START + STREAK_DRAW ──────► end
+ *   year line draws     pause          streak traced + counter          hold + fade out
+ */
+
+import { evolvePath, getLength, getPointAtLength } from "@remotion/paths";
+import React, { useMemo } from "react";
+import {
+  AbsoluteFill,
+  Easing,
+  interpolate,
+  spring,
+  useCurrentFrame,
+  useVideoConfig,
+} from "remotion";
+import type { z } from "zod";
+import { compositionSchema } from "../../src/config";
+import { getLongestStreakRange } from "../../src/stats/contributions";
+import { Gradient } from "../Gradients/NativeGradient";
+import { Noise } from "../Noise";
+import { getRocketTheme } from "../rocket-themes";
+import { SevenSegment } from "../test-scenes/components/SevenSegmentNumber";
+import { getStreakPaths } from "./streak-path";
+
+export const LONGEST_STREAK_SCENE_LENGTH = 240;
+
+const YEAR_DRAW = 60;
+const STREAK_START = 70;
+const STREAK_DRAW = 90;
+const EXIT_DURATION = 20;
+
+const PATH_WIDTH = 900;
+const PATH_HEIGHT = 300;
+const STREAK_COLOR = "#FFE066";
+
+export const longestStreakSceneSchema = compositionSchema.pick({
+  contributionData: true,
+  longestStreak: true,
+  rocket: true,
+});
+
+export const LongestStreakScene: React.FC<
+  z.infer<typeof longestStreakSceneSchema>
+> = ({ contributionData, longestStreak, rocket }) => {
+  const frame = useCurrentFrame();
+  const { fps, durationInFrames } = useVideoConfig();
+
+  const { yearPath, streakPath } = useMemo(
+    () =>
+      getStreakPaths({
+        contributionData,
+        streak: getLongestStreakRange(contributionData),
+        width: PATH_WIDTH,
+        height: PATH_HEIGHT,
+      }),
+    [contributionData],
+  );
+
+  const yearProgress = interpolate(frame, [0, YEAR_DRAW], [0, 1], {
+    easing: Easing.inOut(Easing.quad),
+    extrapolateLeft: "clamp",
+    extrapolateRight: "clamp",
+  });
+
+  const streakProgress = interpolate(
+    frame,
+    [STREAK_START, STREAK_START + STREAK_DRAW],
+    [0, 1],
+    {
+      easing: Easing.inOut(Easing.quad),
+      extrapolateLeft: "clamp",
+      extrapolateRight: "clamp",
+    },
+  );
+
+  const head = streakPath
+    ? getPointAtLength(streakPath, getLength(streakPath) * streakProgress)
+    : null;
+
+  const counterEnter = spring({
+    fps,
+    frame,
+    delay: STREAK_START - 20,
+    config: {
+      damping: 200,
+    },
+  });
+
+  const exit = interpolate(
+    frame,
+    [durationInFrames - EXIT_DURATION, durationInFrames],
+    [0, 1],
+    {
+      extrapolateLeft: "clamp",
+      extrapolateRight: "clamp",
+    },
+  );
+
+  return (
+    <AbsoluteFill>
+      <AbsoluteFill>
+        <Gradient gradient={getRocketTheme(rocket).gradient} />
+        <Noise translateX={0} translateY={0} rocket={rocket} />
+      </AbsoluteFill>
+      <AbsoluteFill
+        style={{
+          justifyContent: "center",
+          alignItems: "center",
+          gap: 80,
+          color: "white",
+          fontFamily: "Mona Sans",
+          opacity: 1 - exit,
+        }}
+      >
+        <div
+          style={{
+            display: "flex",
+            flexDirection: "column",
+            alignItems: "center",
+            gap: 20,
+            opacity: counterEnter,
+            transform: `translateY(${(1 - counterEnter) * 40}px)`,
+          }}
+        >
+          <div
+            style={{
+              backgroundColor: "rgba(0, 0, 0, 0.4)",
+              borderRadius: 30,
+              padding: "20px 40px",
+            }}
+          >
+            <SevenSegment
+              num={Math.round(streakProgress * longestStreak)}
+              fontSize={160}
+              max={longestStreak}
+            />
+          </div>
+          <div style={{ fontSize: 45, fontWeight: "bold" }}>
+            {longestStreak === 1 ? "day" : "days"} longest streak
+          </div>
+        </div>
+        <svg
+          viewBox={`-20 -20 ${PATH_WIDTH + 40} ${PATH_HEIGHT + 40}`}
+          style={{ width: PATH_WIDTH + 40, height: PATH_HEIGHT + 40 }}
+        >
+          <path
+            d={yearPath}
+            stroke="white"
+            strokeOpacity={0.4}
+            strokeWidth={3}
+            strokeLinejoin="round"
+            fill="none"
+            {...evolvePath(yearProgress, yearPath)}
+          />
+          {streakPath && streakProgress > 0 ? (
+            <path
+              d={streakPath}
+              stroke={STREAK_COLOR}
+              strokeWidth={8}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              fill="none"
+              {...evolvePath(streakProgress, streakPath)}
+            />
+          ) : null}
+          {head && streakProgress > 0 ? (
+            <circle cx={head.x} cy={head.y} r={14} fill={STREAK_COLOR} />
+          ) : null}
+        </svg>
+      </AbsoluteFill>
+    </AbsoluteFill>
+  );
+};
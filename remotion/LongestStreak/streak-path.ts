@@ -0,0 +1,54 @@
+type Point = { x: number; y: number };
+
+const toPath = (points: Point[]) => {
+  return points
+    .map((point, i) => `${i === 0 ? "M" : "L"} ${point.x} ${point.y}`)
+    .join(" ");
+};
+
+/**
+ * Turns a year of contributions into a line going left to right across
+ * `width`, higher where more contributions happened.
+ *
+ * Each day gets a point in the middle of its slot, and both lines are
+ * extended by half a slot at each end so they cover their days completely.
+ * That way even a one-day streak has a length that can be drawn.
+ */
+export const getStreakPaths = ({
+  contributionData,
+  streak,
+  width,
+  height,
+}: {
+  contributionData: number[];
+  streak: { start: number; end: number } | null;
+  width: number;
+  height: number;
+}) => {
+  const max = Math.max(1, ...contributionData);
+  const step = width / Math.max(1, contributionData.length);
+
+  // sqrt() so a single busy day doesn't flatten the rest of the year
+  const getY = (day: number) =>
+    height - Math.sqrt((contributionData[day] ?? 0) / max) * height;
+
+  const getLine = (start: number, end: number) => {
+    const points = new Array(end - start + 1).fill(true).map(
+      (_, i): Point => ({
+        x: (start + i + 0.5) * step,
+        y: getY(start + i),
+      }),
+    );
+
+    return toPath([
+      { x: start * step, y: getY(start) },
+      ...points,
+      { x: (end + 1) * step, y: getY(end) },
+    ]);
+  };
+
+  return {
+    yearPath: getLine(0, contributionData.length - 1),
+    streakPath: streak ? getLine(streak.start, streak.end) : null,
+  };
+};
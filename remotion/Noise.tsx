@@ -2,36 +2,24 @@ import { noise2D } from "@remotion/noise";
 import React, { useMemo } from "react";
 import { AbsoluteFill, useVideoConfig } from "remotion";
 import { z } from "zod";
+import { rocketSchema } from "../src/config";
+import { getRocketTheme } from "./rocket-themes";
 
 const unitSize = 15;
 
 export const noiseSchema = z.object({
   translateX: z.number().step(1),
   translateY: z.number(),
+  rocket: rocketSchema,
 });
 
-const palette = [
-  "#15466C",
-  "#808080",
-  "#615955",
-  "#726455",
-  "#7CA2C3",
-  "#A1C2C0",
-  "#AAA8A8",
-  "#1C394A",
-  "#3B6773",
-  "#465B79",
-];
-
-if (palette.length !== 10) {
-  throw new Error("Palette must have 10 colors");
-}
-
 export const Noise: React.FC<z.infer<typeof noiseSchema>> = ({
   translateX,
   translateY,
+  rocket,
 }) => {
   const { width, height } = useVideoConfig();
+  const palette = getRocketTheme(rocket).noisePalette;
 
   const samples = useMemo(() => {
     const unitsHorizontal = width / unitSize;
@@ -87,7 +75,7 @@ export const Noise: React.FC<z.infer<typeof noiseSchema>> = ({
         </div>
       );
     });
-  }, [samples, translateX, translateY]);
+  }, [palette, samples, translateX, translateY]);
 
   return <AbsoluteFill>{memoizedSamples}</AbsoluteFill>;
 };
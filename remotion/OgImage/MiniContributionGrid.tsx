@@ -0,0 +1,55 @@
+import React from "react";
+
+const ROWS = 7;
+const COLUMNS = 13;
+
+const EMPTY_COLOR = "#3A3D4A";
+// Same palette as the panes printed on og-image-background.png
+const LEVEL_COLORS = ["#9BA3AF", "#B8F2F4", "#4A6CF7"];
+
+/**
+ * A condensed contribution calendar: the year is split into
+ * ROWS × COLUMNS buckets so it stays readable at link-preview size.
+ */
+export const MiniContributionGrid: React.FC<{
+  readonly contributionData: number[];
+  readonly cellSize: number;
+}> = ({ contributionData, cellSize }) => {
+  const bucketCount = ROWS * COLUMNS;
+  const bucketSize = Math.max(1, contributionData.length / bucketCount);
+
+  const buckets = new Array(bucketCount).fill(true).map((_, i) => {
+    return contributionData
+      .slice(Math.floor(i * bucketSize), Math.floor((i + 1) * bucketSize))
+      .reduce((total, count) => total + count, 0);
+  });
+  const max = Math.max(0, ...buckets);
+
+  return (
+    <div
+      style={{
+        display: "grid",
+        gridTemplateRows: `repeat(${ROWS}, ${cellSize}px)`,
+        gridAutoFlow: "column",
+        gridAutoColumns: cellSize,
+        gap: cellSize / 5,
+      }}
+    >
+      {buckets.map((count, i) => {
+        const level = Math.min(
+          LEVEL_COLORS.length - 1,
+          Math.floor((count / max) * LEVEL_COLORS.length),
+        );
+
+        return (
+          <div
+            key={i}
+            style={{
+              backgroundColor: count === 0 ? EMPTY_COLOR : LEVEL_COLORS[level],
+            }}
+          />
+        );
+      })}
+    </div>
+  );
+};
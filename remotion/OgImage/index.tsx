@@ -0,0 +1,211 @@
+/**
+ * OG IMAGE
+ *
+ * 1200×630 social preview for a user's page, rendered as a still. Fills the
+ * empty panes of og-image-background.png with the user's stats.
+ *
+ * Props come from `computeOgImageParameters()` and are validated by
+ * `ogImageSchema`.
+ */
+
+import React from "react";
+import { AbsoluteFill, Img, staticFile } from "remotion";
+import type { OgImageParameters } from "../../src/config";
+import { LanguageIcon } from "../TopLanguages/LanguageIcon";
+import { MiniContributionGrid } from "./MiniContributionGrid";
+
+const BACKGROUND_IMAGE = staticFile("og-image-background.png");
+
+// The panes in the background image are slightly tilted
+const PANE_ROTATION = "-1.3deg";
+const TEXT_COLOR = "#E6E8EE";
+const MUTED_TEXT_COLOR = "#A4A9B6";
+const HIGHLIGHT_COLOR = "#4A6CF7";
+const BAR_COLOR = "#4B4F5C";
+
+const WEEKDAY_LABELS = ["M", "T", "W", "T", "F", "S", "S"];
+
+const Pane: React.FC<{
+  readonly left: number;
+  readonly top: number;
+  readonly width: number;
+  readonly height: number;
+  readonly style?: React.CSSProperties;
+  readonly children: React.ReactNode;
+}> = ({ left, top, width, height, style, children }) => {
+  return (
+    <div
+      style={{
+        position: "absolute",
+        left,
+        top,
+        width,
+        height,
+        display: "flex",
+        flexDirection: "column",
+        justifyContent: "center",
+        transform: `rotate(${PANE_ROTATION})`,
+        ...style,
+      }}
+    >
+      {children}
+    </div>
+  );
+};
+
+export const OgImage: React.FC<OgImageParameters> = ({
+  login,
+  stars,
+  issues,
+  pullRequests,
+  contributionData,
+  weekdays,
+  topLanguage,
+  longestStreak,
+  totalContributions,
+}) => {
+  const maxWeekday = Math.max(1, ...weekdays);
+  const busiestWeekday = weekdays.indexOf(Math.max(...weekdays));
+
+  return (
+    <AbsoluteFill
+      style={{
+        fontFamily: "Mona Sans",
+        color: TEXT_COLOR,
+      }}
+    >
+      <Img src={BACKGROUND_IMAGE} style={{ width: "100%", height: "100%" }} />
+      <Pane left={120} top={90} width={740} height={48}>
+        <div
+          style={{
+            fontSize: 34,
+            fontWeight: "bold",
+            whiteSpace: "nowrap",
+            overflow: "hidden",
+            textOverflow: "ellipsis",
+          }}
+        >
+          {login}&apos;s coding year in review
+        </div>
+      </Pane>
+      <Pane
+        left={125}
+        top={168}
+        width={128}
+        height={70}
+        style={{ alignItems: "flex-end" }}
+      >
+        <div style={{ fontSize: 28, fontWeight: "bold" }}>{stars}</div>
+        <div style={{ fontSize: 14, color: MUTED_TEXT_COLOR }}>
+          Repos Starred
+        </div>
+      </Pane>
+      <Pane
+        left={283}
+        top={164}
+        width={100}
+        height={70}
+        style={{ alignItems: "flex-end" }}
+      >
+        <div style={{ fontSize: 28, fontWeight: "bold" }}>{pullRequests}</div>
+        <div style={{ fontSize: 14, color: MUTED_TEXT_COLOR }}>Total PRs</div>
+      </Pane>
+      <Pane
+        left={555}
+        top={158}
+        width={120}
+        height={38}
+        style={{ flexDirection: "row", alignItems: "center", gap: 10 }}
+      >
+        <div style={{ fontSize: 24, fontWeight: "bold" }}>{issues}</div>
+        <div style={{ fontSize: 14, color: MUTED_TEXT_COLOR }}>Issues</div>
+      </Pane>
+      <Pane
+        left={312}
+        top={244}
+        width={245}
+        height={54}
+        style={{ flexDirection: "row", alignItems: "center", gap: 12 }}
+      >
+        {topLanguage ? <LanguageIcon language={topLanguage} size={36} /> : null}
+        <div>
+          <div style={{ fontSize: 13, color: MUTED_TEXT_COLOR }}>
+            Top Language
+          </div>
+          <div style={{ fontSize: 20, fontWeight: "bold" }}>
+            {topLanguage ? topLanguage.name : "-"}
+          </div>
+        </div>
+      </Pane>
+      <Pane
+        left={712}
+        top={166}
+        width={140}
+        height={88}
+        style={{
+          flexDirection: "row",
+          alignItems: "flex-end",
+          justifyContent: "space-between",
+        }}
+      >
+        {weekdays.map((count, i) => (
+          <div
+            key={i}
+            style={{
+              display: "flex",
+              flexDirection: "column",
+              alignItems: "center",
+              gap: 4,
+            }}
+          >
+            <div
+              style={{
+                width: 10,
+                height: Math.max(4, (count / maxWeekday) * 62),
+                backgroundColor:
+                  i === busiestWeekday ? HIGHLIGHT_COLOR : BAR_COLOR,
+              }}
+            />
+            <div style={{ fontSize: 10, color: MUTED_TEXT_COLOR }}>
+              {WEEKDAY_LABELS[i]}
+            </div>
+          </div>
+        ))}
+      </Pane>
+      <Pane
+        left={133}
+        top={330}
+        width={240}
+        height={108}
+        style={{ flexDirection: "row", alignItems: "center", gap: 12 }}
+      >
+        <MiniContributionGrid
+          contributionData={contributionData}
+          cellSize={11}
+        />
+        <div
+          style={{
+            writingMode: "vertical-rl",
+            display: "flex",
+            alignItems: "center",
+          }}
+        >
+          <div style={{ fontSize: 26, fontWeight: "bold" }}>
+            {totalContributions}
+          </div>
+          <div style={{ fontSize: 13, color: MUTED_TEXT_COLOR }}>
+            contributions
+          </div>
+        </div>
+      </Pane>
+      <Pane left={410} top={306} width={170} height={30}>
+        <div style={{ fontSize: 14, color: MUTED_TEXT_COLOR }}>
+          Longest streak:{" "}
+          <span style={{ color: TEXT_COLOR, fontWeight: "bold" }}>
+            {longestStreak} {longestStreak === 1 ? "day" : "days"}
+          </span>
+        </div>
+      </Pane>
+    </AbsoluteFill>
+  );
+};
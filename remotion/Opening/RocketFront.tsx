@@ -1,6 +1,10 @@
-import { AbsoluteFill, Img } from "remotion";
+import { AbsoluteFill, Img, staticFile } from "remotion";
 import type { Rocket } from "../../src/config";
-// import { getSideRocketSource } from "../Spaceship"; // Missing module
+import { getRocketImage } from "./constants";
+
+export const getSideRocketSource = (rocket: Rocket) => {
+  return staticFile(getRocketImage(rocket));
+};
 
 const SvgComponent = (props: { readonly rocket: Rocket }) => (
   <AbsoluteFill
@@ -10,7 +14,7 @@ const SvgComponent = (props: { readonly rocket: Rocket }) => (
     }}
   >
     <Img
-      src={""} // getSideRocketSource(props.rocket) - commented out
+      src={getSideRocketSource(props.rocket)}
       style={{
         width: 732 / 2,
         height: 1574 / 2,
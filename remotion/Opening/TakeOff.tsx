@@ -8,9 +8,11 @@ import {
   useCurrentFrame,
 } from "remotion";
 import type { Rocket } from "../../src/config";
-// import { remapSpeed } from "../TopLanguages/remap-speed"; // Missing module
-import Spaceship from "./RocketFront";
+import { getRocketTheme } from "../rocket-themes";
+import Spaceship, { getSideRocketSource } from "./RocketFront";
+import { getExhaustFlame } from "./constants";
 import { isWebkit } from "./devices";
+import { remapSpeed } from "./speed-remap";
 
 export const takeOffSpeedFucntion = (f: number) =>
   10 ** interpolate(f, [0, 120], [-1, 4]);
@@ -18,47 +20,21 @@ const speedFunctionShake = (f: number) =>
   10 ** interpolate(f, [0, 80, 150], [-1, 3, 1]);
 
 export const getFlame = (rocket: Rocket) => {
-  if (isWebkit()) {
-    if (rocket === "yellow") {
-      return staticFile("exhaust-orange-hevc-safari.mp4");
-    }
-
-    if (rocket === "orange") {
-      return staticFile("exhaust-orange-hevc-safari.mp4");
-    }
-
-    if (rocket === "blue") {
-      return staticFile("exhaust-blue-hevc-safari.mp4");
-    }
-
-    throw new Error("Unknown rocket");
-  }
-
-  if (rocket === "yellow") {
-    return staticFile("exhaust-orange-vp9-chrome.webm");
-  }
-
-  if (rocket === "orange") {
-    return staticFile("exhaust-orange-vp9-chrome.webm");
-  }
-
-  if (rocket === "blue") {
-    return staticFile("exhaust-blue-vp9-chrome.webm");
-  }
-
-  throw new Error("Unknown rocket");
+  return staticFile(
+    getExhaustFlame(getRocketTheme(rocket).flame.exhaust, isWebkit()),
+  );
 };
 
 export const getTakeOffAssetToPrefetch = (rocket: Rocket) => {
-  return [getFlame(rocket)];
+  return [getFlame(rocket), getSideRocketSource(rocket)];
 };
 
 export const TakeOff: React.FC<{
   readonly rocket: Rocket;
 }> = ({ rocket }) => {
   const frame = useCurrentFrame();
-  const acceleratedFrame = frame; // remapSpeed(frame, takeOffSpeedFucntion); - commented out
-  const acceleratedShakeFrame = frame; // remapSpeed(frame, speedFunctionShake); - commented out
+  const acceleratedFrame = remapSpeed(frame, takeOffSpeedFucntion);
+  const acceleratedShakeFrame = remapSpeed(frame, speedFunctionShake);
 
   const translateX = interpolate(acceleratedFrame, [0, 100], [0, -100]);
 
@@ -76,6 +52,7 @@ export const TakeOff: React.FC<{
         <OffthreadVideo
           style={{
             width: 472,
+            filter: getRocketTheme(rocket).flame.filter ?? undefined,
           }}
           muted
           transparent
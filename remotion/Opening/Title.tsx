@@ -9,9 +9,12 @@ import {
 import type { z } from "zod";
 import { PaneEffect } from "../PaneEffect";
 import { TitleImage, type openingTitleSchema } from "./TitleImage";
-// import { PANE_BACKGROUND, PANE_TEXT_COLOR } from "../TopLanguages/Pane"; // Missing module
-const PANE_BACKGROUND = "rgba(230, 225, 252, 0.8)";
-const PANE_TEXT_COLOR = "#01064A";
+import {
+  INNER_BORDER_RADIUS,
+  PADDING,
+  PANE_BACKGROUND,
+  PANE_TEXT_COLOR,
+} from "./constants";
 
 const title: React.CSSProperties = {
   fontSize: 80,
@@ -24,9 +27,6 @@ const title: React.CSSProperties = {
   lineHeight: 1.1,
 };
 
-const INNER_BORDER_RADIUS = 30;
-const PADDING = 20;
-
 export const OpeningTitle: React.FC<
   z.infer<typeof openingTitleSchema> & {
     readonly exitProgress: number;
@@ -98,6 +98,7 @@ export const OpeningTitle: React.FC<
         }}
         whiteHighlightOpacity={1}
         pinkHighlightOpacity={effectProgress}
+        rocket={rocket}
         padding={effectProgress * 20}
       >
         <div
@@ -1,16 +1,18 @@
-import React from "react";
+import React, { useCallback, useState } from "react";
 import {
   Img,
   interpolate,
   spring,
+  staticFile,
   useCurrentFrame,
   useVideoConfig,
 } from "remotion";
 import { z } from "zod";
+import type { Rocket } from "../../src/config";
 import { openingSceneStartAngle, rocketSchema } from "../../src/config";
 import type { GradientType } from "../Gradients/available-gradients";
-// import { PANE_BORDER } from "../TopLanguages/Pane"; // Missing module
-const PANE_BORDER = "2px solid rgba(255, 255, 255, 0.1)";
+import { getRocketTheme } from "../rocket-themes";
+import { PANE_BORDER } from "./constants";
 
 export const openingTitleSchema = z.object({
   login: z.string(),
@@ -21,19 +23,28 @@ export const openingTitleSchema = z.object({
 const TITLE_IMAGE_INNER_BORDER_RADIUS = 30;
 const TITLE_IMAGE_BORDER_PADDING = 20;
 
-export const accentColorToGradient = (): GradientType => {
-  return "blueRadial";
+export const accentColorToGradient = (rocket: Rocket): GradientType => {
+  return getRocketTheme(rocket).gradient;
 };
 
 export const getAvatarImage = (login: string) => {
   return `https://github.com/${login}.png`;
 };
 
+// Shown instead of the avatar when github.com can't be reached (offline renders)
+export const AVATAR_FALLBACK_IMAGE = staticFile("octocat.svg");
+
 export const TitleImage: React.FC<z.infer<typeof openingTitleSchema>> = ({
   login,
 }) => {
   const frame = useCurrentFrame();
   const { fps } = useVideoConfig();
+  const [avatarFailed, setAvatarFailed] = useState(false);
+
+  // Without onError, <Img> would cancel the whole render
+  const onAvatarError = useCallback(() => {
+    setAvatarFailed(true);
+  }, []);
 
   const flip = spring({
     fps,
@@ -55,7 +66,9 @@ export const TitleImage: React.FC<z.infer<typeof openingTitleSchema>> = ({
       }}
     >
       <Img
-        src={getAvatarImage(login)}
+        src={avatarFailed ? AVATAR_FALLBACK_IMAGE : getAvatarImage(login)}
+        maxRetries={1}
+        onError={onAvatarError}
         style={{
           width: 160,
           borderRadius: TITLE_IMAGE_INNER_BORDER_RADIUS,
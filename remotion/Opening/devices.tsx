@@ -12,6 +12,10 @@ export const isWebkit = () => {
 };
 
 export const isMobileDevice = () => {
+  if (typeof window === "undefined") {
+    return false;
+  }
+
   const isIpadIPodIPhone = /iP(ad|od|hone)/i.test(window.navigator.userAgent);
 
   return (
@@ -12,16 +12,16 @@ import {
 import type { z } from "zod";
 import type { Rocket } from "../../src/config";
 import { Gradient } from "../Gradients/NativeGradient";
+import { FixedStage } from "../layout/FixedStage";
 import { Noise } from "../Noise";
 import { BACKGROUND_MOUNTAINS_IMAGE, BackgroundMountains } from "./Background";
+import { isMobileDevice } from "./devices";
 import { FOREGROUND_IMAGE, Foreground } from "./Foreground";
 import { TakeOff, getTakeOffAssetToPrefetch } from "./TakeOff";
 import { OpeningTitle } from "./Title";
 import { accentColorToGradient, type openingTitleSchema } from "./TitleImage";
-import { isMobileDevice } from "./devices";
 
-export const OPENING_SCENE_LENGTH = 130;
-export const OPENING_SCENE_OUT_OVERLAP = 10;
+export { OPENING_SCENE_LENGTH, OPENING_SCENE_OUT_OVERLAP } from "./constants";
 
 const LAUNCH_SOUND = staticFile("rocket-launch.mp3");
 
@@ -34,15 +34,16 @@ export const getOpeningAssetsToPrefetch = (rocket: Rocket) => {
   ];
 };
 
-const OpeningSceneFull: React.FC<z.infer<typeof openingTitleSchema>> = ({
-  login,
-  startAngle,
-  rocket,
+const getExitProgress = ({
+  fps,
+  frame,
+  durationInFrames,
+}: {
+  fps: number;
+  frame: number;
+  durationInFrames: number;
 }) => {
-  const { fps, durationInFrames } = useVideoConfig();
-  const frame = useCurrentFrame();
-
-  const exitProgress = spring({
+  return spring({
     fps,
     frame,
     config: {
@@ -51,6 +52,17 @@ const OpeningSceneFull: React.FC<z.infer<typeof openingTitleSchema>> = ({
     delay: durationInFrames - 20,
     durationInFrames: 60,
   });
+};
+
+const OpeningSceneFull: React.FC<z.infer<typeof openingTitleSchema>> = ({
+  login,
+  startAngle,
+  rocket,
+}) => {
+  const { fps, durationInFrames } = useVideoConfig();
+  const frame = useCurrentFrame();
+
+  const exitProgress = getExitProgress({ fps, frame, durationInFrames });
 
   const distance = interpolate(exitProgress, [0, 1], [1, 0.000005], {});
   const scaleDivided = 1 / distance;
@@ -79,14 +91,6 @@ const OpeningSceneFull: React.FC<z.infer<typeof openingTitleSchema>> = ({
           height: "100%",
         }}
       >
-        <AbsoluteFill
-          style={{
-            opacity: interpolate(exitProgress, [0, 1], [1, 0]),
-          }}
-        >
-          <Gradient gradient={accentColorToGradient()} />
-          <Noise translateX={100} translateY={30} />
-        </AbsoluteFill>
         <AbsoluteFill>
           <OpeningTitle
             startAngle={startAngle}
@@ -116,7 +120,7 @@ const OpeningSceneFull: React.FC<z.infer<typeof openingTitleSchema>> = ({
   );
 };
 
-export const OpeningScene: React.FC<z.infer<typeof openingTitleSchema>> = ({
+const OpeningSceneZoom: React.FC<z.infer<typeof openingTitleSchema>> = ({
   login,
   startAngle,
   rocket,
@@ -164,3 +168,39 @@ export const OpeningScene: React.FC<z.infer<typeof openingTitleSchema>> = ({
     </AbsoluteFill>
   );
 };
+
+/**
+ * The background is rendered full-bleed, everything else is laid out for
+ * the square video and sits on the bottom edge in other aspect ratios so
+ * the mountains don't float.
+ */
+export const OpeningScene: React.FC<z.infer<typeof openingTitleSchema>> = ({
+  login,
+  startAngle,
+  rocket,
+}) => {
+  const { fps, durationInFrames } = useVideoConfig();
+  const frame = useCurrentFrame();
+
+  const exitProgress = getExitProgress({ fps, frame, durationInFrames });
+
+  return (
+    <AbsoluteFill>
+      <AbsoluteFill
+        style={{
+          opacity: interpolate(exitProgress, [0, 1], [1, 0]),
+        }}
+      >
+        <Gradient gradient={accentColorToGradient(rocket)} />
+        <Noise translateX={100} translateY={30} rocket={rocket} />
+      </AbsoluteFill>
+      <FixedStage align="bottom">
+        <OpeningSceneZoom
+          startAngle={startAngle}
+          login={login}
+          rocket={rocket}
+        />
+      </FixedStage>
+    </AbsoluteFill>
+  );
+};
@@ -1,4 +1,6 @@
 import { AbsoluteFill, Img, staticFile } from "remotion";
+import type { Rocket } from "../src/config";
+import { getRocketTheme } from "./rocket-themes";
 
 export const PaneEffect: React.FC<{
   readonly children: React.ReactNode;
@@ -7,6 +9,7 @@ export const PaneEffect: React.FC<{
   readonly whiteHighlightOpacity: number;
   readonly pinkHighlightOpacity: number;
   readonly padding: number;
+  readonly rocket: Rocket;
 }> = ({
   children,
   innerRadius,
@@ -14,7 +17,10 @@ export const PaneEffect: React.FC<{
   whiteHighlightOpacity,
   pinkHighlightOpacity,
   padding,
+  rocket,
 }) => {
+  const { paneHighlightFilter } = getRocketTheme(rocket);
+
   return (
     <div
       style={{
@@ -62,6 +68,7 @@ export const PaneEffect: React.FC<{
               aspectRatio: "1 / 1",
               scale: "4",
               opacity: pinkHighlightOpacity,
+              filter: paneHighlightFilter ?? undefined,
             }}
             src={staticFile("PinkHighlight.png")}
           />
@@ -0,0 +1,94 @@
+import React from "react";
+import { Img, spring, useCurrentFrame, useVideoConfig } from "remotion";
+import type { Planet, Rocket } from "../../src/config";
+import { planetThresholds } from "../../src/config";
+import { PaneEffect } from "../PaneEffect";
+import {
+  PANE_BACKGROUND,
+  PANE_BORDER,
+  PANE_TEXT_COLOR,
+} from "../test-scenes/components/Pane";
+import { getPlanetImage } from "./planets";
+
+// Same strict comparison as `computePlanet()`: exactly `minContributions`
+// contributions still belongs to the tier below
+const formatThreshold = (index: number) => {
+  const { minContributions } = planetThresholds[index];
+  if (index === planetThresholds.length - 1) {
+    return `up to ${planetThresholds[index - 1].minContributions}`;
+  }
+
+  return `more than ${minContributions}`;
+};
+
+export const PlanetTiers: React.FC<{
+  readonly planet: Planet;
+  readonly delay: number;
+  readonly rocket: Rocket;
+}> = ({ planet, delay, rocket }) => {
+  const frame = useCurrentFrame();
+  const { fps } = useVideoConfig();
+
+  return (
+    <PaneEffect
+      innerRadius={40}
+      padding={14}
+      pinkHighlightOpacity={0}
+      whiteHighlightOpacity={1}
+      style={{}}
+      rocket={rocket}
+    >
+      <div
+        style={{
+          display: "flex",
+          flexDirection: "column",
+          gap: 10,
+          padding: "24px 40px",
+          width: 600,
+          borderRadius: 40,
+          backgroundColor: PANE_BACKGROUND,
+          border: PANE_BORDER,
+          color: PANE_TEXT_COLOR,
+          fontFamily: "Mona Sans",
+        }}
+      >
+        {planetThresholds.map((threshold, i) => {
+          const reached = threshold.planet === planet;
+          const enter = spring({
+            fps,
+            frame,
+            delay: delay + i * 5,
+            config: {
+              damping: 200,
+            },
+          });
+
+          return (
+            <div
+              key={threshold.planet}
+              style={{
+                display: "flex",
+                flexDirection: "row",
+                alignItems: "center",
+                gap: 20,
+                fontSize: 36,
+                fontWeight: reached ? "bold" : "normal",
+                opacity: enter * (reached ? 1 : 0.45),
+                transform: `translateX(${(1 - enter) * 40}px)`,
+              }}
+            >
+              <Img
+                src={getPlanetImage(threshold.planet)}
+                style={{ width: 60, height: 60 }}
+              />
+              <div style={{ flex: 1 }}>{threshold.planet}</div>
+              <div style={{ fontVariantNumeric: "tabular-nums" }}>
+                {formatThreshold(i)}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </PaneEffect>
+  );
+};
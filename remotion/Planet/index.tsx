@@ -0,0 +1,163 @@
+/**
+ * PLANET REVEAL SCENE
+ *
+ * The rocket descends through the sky and lands on the planet the user
+ * reached (see `computePlanet()`), then the tiers and their contribution
+ * thresholds are listed with the reached one highlighted.
+ *
+ * Timeline:
+ * 0 ──────────► LANDED ──────────► TIERS_DELAY ──────────► end
+ *    planet approaches    title reveal        tier list
+ */
+
+import React from "react";
+import {
+  AbsoluteFill,
+  Audio,
+  Img,
+  interpolate,
+  spring,
+  staticFile,
+  useCurrentFrame,
+  useVideoConfig,
+} from "remotion";
+import type { z } from "zod";
+import { compositionSchema } from "../../src/config";
+import { Gradient } from "../Gradients/NativeGradient";
+import { Noise } from "../Noise";
+import { isMobileDevice } from "../Opening/devices";
+import { PlanetTiers } from "./PlanetTiers";
+import { getPlanetImage, planetGradients } from "./planets";
+
+export const PLANET_SCENE_LENGTH = 270;
+
+const LANDED = 90;
+const TIERS_DELAY = 140;
+const EXIT_DURATION = 20;
+
+const SKY_BACKGROUND = staticFile("Spaceship/Sky-BG.png");
+const LANDING_SOUND = staticFile("landing.mp3");
+
+export const planetSceneSchema = compositionSchema.pick({
+  planet: true,
+  totalContributions: true,
+  rocket: true,
+});
+
+export const PlanetScene: React.FC<z.infer<typeof planetSceneSchema>> = ({
+  planet,
+  totalContributions,
+  rocket,
+}) => {
+  const frame = useCurrentFrame();
+  const { fps, durationInFrames } = useVideoConfig();
+
+  const approach = spring({
+    fps,
+    frame,
+    config: {
+      damping: 200,
+    },
+    durationInFrames: LANDED,
+  });
+
+  const titleEnter = spring({
+    fps,
+    frame,
+    delay: LANDED - 10,
+    config: {
+      damping: 200,
+    },
+  });
+
+  // Planet moves up and out of the way to make room for the tier list
+  const makeRoom = spring({
+    fps,
+    frame,
+    delay: TIERS_DELAY - 10,
+    config: {
+      damping: 200,
+    },
+  });
+
+  const exit = interpolate(
+    frame,
+    [durationInFrames - EXIT_DURATION, durationInFrames],
+    [0, 1],
+    {
+      extrapolateLeft: "clamp",
+      extrapolateRight: "clamp",
+    },
+  );
+
+  const planetScale =
+    interpolate(approach, [0, 1], [0.15, 0.9]) -
+    interpolate(makeRoom, [0, 1], [0, 0.5]);
+  const planetY =
+    interpolate(approach, [0, 1], [-300, 80]) -
+    interpolate(makeRoom, [0, 1], [0, 330]);
+
+  // Sky scrolls up as we descend
+  const skyY = interpolate(approach, [0, 1], [0, -200]);
+
+  return (
+    <AbsoluteFill style={{ backgroundColor: "black", opacity: 1 - exit }}>
+      {isMobileDevice() ? null : <Audio src={LANDING_SOUND} />}
+      <AbsoluteFill style={{ transform: `translateY(${skyY}px)` }}>
+        <Img
+          src={SKY_BACKGROUND}
+          style={{ width: "100%", height: "130%", objectFit: "cover" }}
+        />
+      </AbsoluteFill>
+      <AbsoluteFill>
+        <Gradient gradient={planetGradients[planet]} />
+        <Noise translateX={0} translateY={0} rocket={rocket} />
+      </AbsoluteFill>
+      <AbsoluteFill
+        style={{
+          justifyContent: "center",
+          alignItems: "center",
+        }}
+      >
+        <Img
+          src={getPlanetImage(planet)}
+          style={{
+            width: 1080,
+            height: 1080,
+            transform: `translateY(${planetY}px) scale(${planetScale}) rotate(${
+              frame * 0.05
+            }deg)`,
+          }}
+        />
+      </AbsoluteFill>
+      <AbsoluteFill
+        style={{
+          alignItems: "center",
+          paddingTop: interpolate(makeRoom, [0, 1], [120, 300]),
+          color: "white",
+          fontFamily: "Mona Sans",
+          textAlign: "center",
+          opacity: titleEnter,
+        }}
+      >
+        <div style={{ fontSize: 40 }}>You landed on</div>
+        <div style={{ fontSize: 90, fontWeight: "bold", lineHeight: 1.1 }}>
+          {planet} Planet
+        </div>
+        <div style={{ fontSize: 32, opacity: 0.8 }}>
+          with {totalContributions} contributions
+        </div>
+      </AbsoluteFill>
+      <AbsoluteFill
+        style={{
+          justifyContent: "flex-end",
+          alignItems: "center",
+          paddingBottom: 80,
+          opacity: makeRoom,
+        }}
+      >
+        <PlanetTiers planet={planet} delay={TIERS_DELAY} rocket={rocket} />
+      </AbsoluteFill>
+    </AbsoluteFill>
+  );
+};
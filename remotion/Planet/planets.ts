@@ -0,0 +1,15 @@
+import { staticFile } from "remotion";
+import type { Planet } from "../../src/config";
+import type { GradientType } from "../Gradients/available-gradients";
+
+export const getPlanetImage = (planet: Planet) => {
+  return staticFile(`planet-${planet.toLowerCase()}.png`);
+};
+
+export const planetGradients: Record<Planet, GradientType> = {
+  Ice: "iceRadial",
+  Silver: "silverRadial",
+  Gold: "yellow",
+  Leafy: "leafyRadial",
+  Fire: "fireRadial",
+};
@@ -0,0 +1,134 @@
+import { evolvePath } from "@remotion/paths";
+import React from "react";
+import { interpolate, spring, useCurrentFrame, useVideoConfig } from "remotion";
+
+// More branches than this no longer fit next to each other
+const MAX_BRANCHES = 8;
+
+const MAIN_LINE_DRAW = 30;
+const BRANCHES_START = 40;
+// All branches are spread over this window, regardless of how many there are
+const BRANCH_WINDOW = 90;
+const BRANCH_DRAW = 25;
+
+const MAIN_COLOR = "white";
+const BRANCH_COLOR = "#3FB950";
+const MERGE_COLOR = "#A371F7";
+
+const MARGIN = 100;
+const BRANCH_HEIGHT = 200;
+
+export const getBranchCount = (totalPullRequests: number) => {
+  return Math.min(totalPullRequests, MAX_BRANCHES);
+};
+
+/**
+ * The frames at which each displayed branch merges back into the main line.
+ */
+export const getMergeFrames = (totalPullRequests: number) => {
+  const count = getBranchCount(totalPullRequests);
+
+  return new Array(count).fill(true).map((_, i) => {
+    return (
+      BRANCHES_START + Math.round(i * (BRANCH_WINDOW / count)) + BRANCH_DRAW
+    );
+  });
+};
+
+export const MergeGraph: React.FC<{
+  readonly totalPullRequests: number;
+  readonly y: number;
+}> = ({ totalPullRequests, y }) => {
+  const frame = useCurrentFrame();
+  const { fps, width, height } = useVideoConfig();
+
+  const mergeFrames = getMergeFrames(totalPullRequests);
+  const slot = (width - MARGIN * 2) / (mergeFrames.length + 1);
+
+  const mainLine = `M ${MARGIN} ${y} L ${width - MARGIN} ${y}`;
+  const mainLineProgress = interpolate(frame, [0, MAIN_LINE_DRAW], [0, 1], {
+    extrapolateLeft: "clamp",
+    extrapolateRight: "clamp",
+  });
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      style={{ position: "absolute", width, height }}
+    >
+      <path
+        d={mainLine}
+        stroke={MAIN_COLOR}
+        strokeWidth={10}
+        strokeLinecap="round"
+        fill="none"
+        {...evolvePath(mainLineProgress, mainLine)}
+      />
+      {mergeFrames.map((mergeFrame, i) => {
+        const forkX = MARGIN + slot * (i + 0.5);
+        const mergeX = forkX + slot * 1.5;
+        // Alternate above and below so neighbouring branches don't cross
+        const controlY = i % 2 === 0 ? y - BRANCH_HEIGHT : y + BRANCH_HEIGHT;
+        const branch = `M ${forkX} ${y} C ${forkX} ${controlY} ${mergeX} ${controlY} ${mergeX} ${y}`;
+
+        const branchProgress = interpolate(
+          frame,
+          [mergeFrame - BRANCH_DRAW, mergeFrame],
+          [0, 1],
+          {
+            extrapolateLeft: "clamp",
+            extrapolateRight: "clamp",
+          },
+        );
+        const merged = spring({
+          fps,
+          frame,
+          delay: mergeFrame,
+          config: {
+            damping: 12,
+          },
+        });
+        const ripple = interpolate(
+          frame,
+          [mergeFrame, mergeFrame + 20],
+          [0, 1],
+          {
+            extrapolateLeft: "clamp",
+            extrapolateRight: "clamp",
+          },
+        );
+
+        return (
+          <g key={i}>
+            <path
+              d={branch}
+              stroke={BRANCH_COLOR}
+              strokeWidth={8}
+              strokeLinecap="round"
+              fill="none"
+              {...evolvePath(branchProgress, branch)}
+            />
+            <circle
+              cx={forkX}
+              cy={y}
+              r={branchProgress > 0 ? 12 : 0}
+              fill={BRANCH_COLOR}
+            />
+            {ripple > 0 && ripple < 1 ? (
+              <circle
+                cx={mergeX}
+                cy={y}
+                r={16 + ripple * 40}
+                fill="none"
+                stroke={MERGE_COLOR}
+                strokeWidth={4}
+                opacity={1 - ripple}
+              />
+            ) : null}
+            <circle cx={mergeX} cy={y} r={16 * merged} fill={MERGE_COLOR} />
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
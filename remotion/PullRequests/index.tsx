@@ -0,0 +1,143 @@
+/**
+ * PULL REQUESTS SCENE
+ *
+ * Picks up where the cockpit zooms past the camera at the end of the stars
+ * and productivity scene: a commit graph approaches from the distance, then
+ * branches fork off and merge back one after the other while the pull
+ * request count goes up.
+ *
+ * Timeline:
+ * 0 ──────► BACKGROUND_FADE_IN ──────► merges ──────► end
+ *   graph approaches          branches merge     hold + fade out
+ *
+ * In the Unwrapped video this scene starts `getStarsAndProductivityOutOverlap()`
+ * frames early, on top of the still zooming cockpit. Its background fades in
+ * over that time, so the cockpit disappears without a cut.
+ */
+
+import React from "react";
+import {
+  AbsoluteFill,
+  Audio,
+  interpolate,
+  Sequence,
+  spring,
+  staticFile,
+  useCurrentFrame,
+  useVideoConfig,
+} from "remotion";
+import type { z } from "zod";
+import { compositionSchema } from "../../src/config";
+import { Gradient } from "../Gradients/NativeGradient";
+import { Noise } from "../Noise";
+import { isMobileDevice } from "../Opening/devices";
+import { getRocketTheme } from "../rocket-themes";
+import { TRANSITION_TO_PULL_REQUESTS } from "../test-scenes/components/transition-to-pull-request";
+import { getMergeFrames, MergeGraph } from "./MergeGraph";
+
+export const PULL_REQUESTS_SCENE_LENGTH = 240;
+
+// Must be shorter than the overlap with the previous scene
+const BACKGROUND_FADE_IN = 30;
+const EXIT_DURATION = 20;
+
+const MERGE_SOUND = staticFile("glockenspiel-3.mp3");
+
+export const pullRequestsSceneSchema = compositionSchema.pick({
+  totalPullRequests: true,
+  rocket: true,
+});
+
+export const PullRequestsScene: React.FC<
+  z.infer<typeof pullRequestsSceneSchema>
+> = ({ totalPullRequests, rocket }) => {
+  const frame = useCurrentFrame();
+  const { fps, height, durationInFrames } = useVideoConfig();
+
+  const mergeFrames = getMergeFrames(totalPullRequests);
+
+  // The branches only represent a sample, so the count advances
+  // proportionally with each merge
+  const merged = mergeFrames.filter((mergeFrame) => frame >= mergeFrame).length;
+  const count =
+    mergeFrames.length === 0
+      ? 0
+      : Math.round((merged / mergeFrames.length) * totalPullRequests);
+
+  const backgroundOpacity = interpolate(
+    frame,
+    [0, BACKGROUND_FADE_IN],
+    [0, 1],
+    {
+      extrapolateLeft: "clamp",
+      extrapolateRight: "clamp",
+    },
+  );
+
+  // Same spring as the cockpit zoom, so the graph approaches at the speed
+  // the cockpit flies past
+  const approach = spring({
+    fps,
+    frame,
+    config: {
+      damping: 200,
+    },
+    durationInFrames: TRANSITION_TO_PULL_REQUESTS,
+  });
+
+  const exit = interpolate(
+    frame,
+    [durationInFrames - EXIT_DURATION, durationInFrames],
+    [0, 1],
+    {
+      extrapolateLeft: "clamp",
+      extrapolateRight: "clamp",
+    },
+  );
+
+  return (
+    <AbsoluteFill>
+      {isMobileDevice()
+        ? null
+        : mergeFrames.map((mergeFrame) => (
+            <Sequence key={mergeFrame} from={mergeFrame} layout="none">
+              <Audio src={MERGE_SOUND} volume={0.3} />
+            </Sequence>
+          ))}
+      <AbsoluteFill style={{ opacity: backgroundOpacity }}>
+        <Gradient gradient={getRocketTheme(rocket).gradient} />
+        <Noise translateX={0} translateY={0} rocket={rocket} />
+      </AbsoluteFill>
+      <AbsoluteFill
+        style={{
+          opacity: approach * (1 - exit),
+          transform: `scale(${approach})`,
+        }}
+      >
+        <MergeGraph totalPullRequests={totalPullRequests} y={height * 0.62} />
+        <AbsoluteFill
+          style={{
+            alignItems: "center",
+            paddingTop: height * 0.12,
+            color: "white",
+            fontFamily: "Mona Sans",
+          }}
+        >
+          <div
+            style={{
+              fontSize: 140,
+              fontWeight: "bold",
+              lineHeight: 1,
+              fontVariantNumeric: "tabular-nums",
+            }}
+          >
+            {count}
+          </div>
+          <div style={{ fontSize: 40, opacity: 0.8 }}>
+            {totalPullRequests === 1 ? "pull request" : "pull requests"}
+          </div>
+        </AbsoluteFill>
+      </AbsoluteFill>
+    </AbsoluteFill>
+  );
+};
@@ -1,6 +1,19 @@
-import { Composition, Folder } from "remotion";
-import { VIDEO_FPS, VIDEO_HEIGHT, VIDEO_WIDTH } from "../types/constants";
-// import { OPENING_SCENE_LENGTH, OpeningScene } from "./Opening"; // Commented out - missing dependencies
+import { Composition, Folder, Still } from "remotion";
+import { compositionSchema, ogImageSchema } from "../src/config";
+import {
+  OG_IMAGE_HEIGHT,
+  OG_IMAGE_WIDTH,
+  VIDEO_FPS,
+  VIDEO_HEIGHT,
+  VIDEO_LAYOUTS,
+  VIDEO_WIDTH,
+} from "../types/constants";
+import {
+  CONTRIBUTIONS_SCENE_LENGTH,
+  ContributionsScene,
+  contributionsSceneSchema,
+} from "./Contributions";
+import { END_CARD_LENGTH, EndCardScene, endCardSchema } from "./EndCard";
 import { BasicFrame } from "./fundamentals/BasicFrame";
 import {
   CUSTOM_OPENING_DURATION,
@@ -8,11 +21,48 @@ import {
 } from "./fundamentals/CustomOpening";
 import { FrameCounter } from "./fundamentals/FrameCounter";
 import { VideoInfo } from "./fundamentals/VideoInfo";
+import {
+  IssuesScene,
+  calculateIssuesSceneMetadata,
+  issuesSceneSchema,
+} from "./Issues";
+import { LayoutVariants } from "./LayoutVariants";
+import {
+  LONGEST_STREAK_SCENE_LENGTH,
+  LongestStreakScene,
+  longestStreakSceneSchema,
+} from "./LongestStreak";
+import { OgImage } from "./OgImage";
+import { OPENING_SCENE_LENGTH, OpeningScene } from "./Opening";
+import { openingTitleSchema } from "./Opening/TitleImage";
+import { PLANET_SCENE_LENGTH, PlanetScene, planetSceneSchema } from "./Planet";
+import {
+  PULL_REQUESTS_SCENE_LENGTH,
+  PullRequestsScene,
+  pullRequestsSceneSchema,
+} from "./PullRequests";
+import {
+  StarsAndProductivityWithAudio,
+  calculateStarsAndProductivityWithAudioMetadata,
+} from "./stars-and-productivity-with-audio";
+import { MOCK_PRODUCTIVITY_DATA } from "./stars-and-productivity-with-audio/constants";
+import {
+  MOCK_COMPOSITION_PARAMETERS,
+  MOCK_OG_IMAGE_PARAMETERS,
+  MOCK_TOP_LANGUAGES,
+} from "./test-scenes/components/MockData";
 import {
   StarsAndProductivityReplica,
-  getStarsAndProductivityDuration,
+  calculateStarsAndProductivityMetadata,
+  starsAndProductivityDefaultProps,
+  starsAndProductivitySchema,
 } from "./test-scenes/StarsAndProductivityReplica";
-import { MOCK_STARS_GIVEN } from "./test-scenes/components/MockData";
+import {
+  TOP_LANGUAGES_DURATION,
+  TopLanguagesScene,
+  topLanguagesSceneSchema,
+} from "./TopLanguages";
+import { Unwrapped, calculateUnwrappedMetadata } from "./Unwrapped";
 
 // Example composition
 const HelloWorld: React.FC = () => {
@@ -46,10 +96,23 @@ export const RemotionRoot: React.FC = () => {
         height={VIDEO_HEIGHT}
       />
 
-      {/* OpeningScene - Commented out due to missing dependencies
+      {/* Master composition - every scene in sequence */}
+      <Composition
+        id="Unwrapped"
+        component={Unwrapped}
+        schema={compositionSchema}
+        calculateMetadata={calculateUnwrappedMetadata}
+        fps={VIDEO_FPS}
+        width={VIDEO_WIDTH}
+        height={VIDEO_HEIGHT}
+        defaultProps={MOCK_COMPOSITION_PARAMETERS}
+      />
+
+      {/* Opening Scene - login, startAngle and rocket are editable in the Studio */}
       <Composition
         id="OpeningScene"
         component={OpeningScene}
+        schema={openingTitleSchema}
         durationInFrames={OPENING_SCENE_LENGTH}
         fps={VIDEO_FPS}
         width={VIDEO_WIDTH}
@@ -60,7 +123,139 @@ export const RemotionRoot: React.FC = () => {
           rocket: "blue" as const,
         }}
       />
-      */}
+
+      {/* Top Languages Scene */}
+      <Composition
+        id="TopLanguages"
+        component={TopLanguagesScene}
+        schema={topLanguagesSceneSchema}
+        durationInFrames={TOP_LANGUAGES_DURATION}
+        fps={VIDEO_FPS}
+        width={VIDEO_WIDTH}
+        height={VIDEO_HEIGHT}
+        defaultProps={{
+          ...MOCK_TOP_LANGUAGES,
+          rocket: MOCK_COMPOSITION_PARAMETERS.rocket,
+        }}
+      />
+
+      {/* Pull Requests Scene */}
+      <Composition
+        id="PullRequests"
+        component={PullRequestsScene}
+        schema={pullRequestsSceneSchema}
+        durationInFrames={PULL_REQUESTS_SCENE_LENGTH}
+        fps={VIDEO_FPS}
+        width={VIDEO_WIDTH}
+        height={VIDEO_HEIGHT}
+        defaultProps={{
+          totalPullRequests: MOCK_COMPOSITION_PARAMETERS.totalPullRequests,
+          rocket: MOCK_COMPOSITION_PARAMETERS.rocket,
+        }}
+      />
+
+      {/* Contributions Scene */}
+      <Composition
+        id="Contributions"
+        component={ContributionsScene}
+        schema={contributionsSceneSchema}
+        durationInFrames={CONTRIBUTIONS_SCENE_LENGTH}
+        fps={VIDEO_FPS}
+        width={VIDEO_WIDTH}
+        height={VIDEO_HEIGHT}
+        defaultProps={{
+          year: MOCK_COMPOSITION_PARAMETERS.year,
+          contributionData: MOCK_COMPOSITION_PARAMETERS.contributionData,
+          totalContributions: MOCK_COMPOSITION_PARAMETERS.totalContributions,
+          longestStreak: MOCK_COMPOSITION_PARAMETERS.longestStreak,
+          rocket: MOCK_COMPOSITION_PARAMETERS.rocket,
+        }}
+      />
+
+      {/* Longest Streak Scene */}
+      <Composition
+        id="LongestStreak"
+        component={LongestStreakScene}
+        schema={longestStreakSceneSchema}
+        durationInFrames={LONGEST_STREAK_SCENE_LENGTH}
+        fps={VIDEO_FPS}
+        width={VIDEO_WIDTH}
+        height={VIDEO_HEIGHT}
+        defaultProps={{
+          contributionData: MOCK_COMPOSITION_PARAMETERS.contributionData,
+          longestStreak: MOCK_COMPOSITION_PARAMETERS.longestStreak,
+          rocket: MOCK_COMPOSITION_PARAMETERS.rocket,
+        }}
+      />
+
+      {/* Issues Scene */}
+      <Composition
+        id="Issues"
+        component={IssuesScene}
+        schema={issuesSceneSchema}
+        calculateMetadata={calculateIssuesSceneMetadata}
+        fps={VIDEO_FPS}
+        width={VIDEO_WIDTH}
+        height={VIDEO_HEIGHT}
+        defaultProps={{
+          login: MOCK_COMPOSITION_PARAMETERS.login,
+          issuesOpened: MOCK_COMPOSITION_PARAMETERS.issuesOpened,
+          issuesClosed: MOCK_COMPOSITION_PARAMETERS.issuesClosed,
+          rocket: MOCK_COMPOSITION_PARAMETERS.rocket,
+        }}
+      />
+
+      {/* Planet Reveal Scene */}
+      <Composition
+        id="PlanetReveal"
+        component={PlanetScene}
+        schema={planetSceneSchema}
+        durationInFrames={PLANET_SCENE_LENGTH}
+        fps={VIDEO_FPS}
+        width={VIDEO_WIDTH}
+        height={VIDEO_HEIGHT}
+        defaultProps={{
+          planet: MOCK_COMPOSITION_PARAMETERS.planet,
+          totalContributions: MOCK_COMPOSITION_PARAMETERS.totalContributions,
+          rocket: MOCK_COMPOSITION_PARAMETERS.rocket,
+        }}
+      />
+
+      {/* End Card */}
+      <Composition
+        id="EndCard"
+        component={EndCardScene}
+        schema={endCardSchema}
+        durationInFrames={END_CARD_LENGTH}
+        fps={VIDEO_FPS}
+        width={VIDEO_WIDTH}
+        height={VIDEO_HEIGHT}
+        defaultProps={{
+          login: MOCK_COMPOSITION_PARAMETERS.login,
+          starsGiven: MOCK_COMPOSITION_PARAMETERS.starsGiven,
+          totalPullRequests: MOCK_COMPOSITION_PARAMETERS.totalPullRequests,
+          issuesOpened: MOCK_COMPOSITION_PARAMETERS.issuesOpened,
+          issuesClosed: MOCK_COMPOSITION_PARAMETERS.issuesClosed,
+          totalContributions: MOCK_COMPOSITION_PARAMETERS.totalContributions,
+          topLanguages: MOCK_COMPOSITION_PARAMETERS.topLanguages,
+          planet: MOCK_COMPOSITION_PARAMETERS.planet,
+          callToAction: MOCK_COMPOSITION_PARAMETERS.callToAction,
+        }}
+      />
+
+      {/* Social preview image */}
+      <Still
+        id="OgImage"
+        component={OgImage}
+        schema={ogImageSchema}
+        width={OG_IMAGE_WIDTH}
+        height={OG_IMAGE_HEIGHT}
+        defaultProps={MOCK_OG_IMAGE_PARAMETERS}
+      />
+
+      {/* Vertical and landscape versions of the scenes above */}
+      <LayoutVariants layout="vertical" />
+      <LayoutVariants layout="landscape" />
 
       {/* Learning Exercises */}
       <Folder name="Fundamentals">
@@ -110,12 +305,29 @@ export const RemotionRoot: React.FC = () => {
       <Composition
         id="StarsAndProductivityReplica"
         component={StarsAndProductivityReplica}
-        durationInFrames={getStarsAndProductivityDuration({
-          starsGiven: MOCK_STARS_GIVEN,
-        })}
+        schema={starsAndProductivitySchema}
+        calculateMetadata={calculateStarsAndProductivityMetadata}
         fps={VIDEO_FPS}
         width={VIDEO_WIDTH}
         height={VIDEO_HEIGHT}
+        defaultProps={starsAndProductivityDefaultProps}
+      />
+
+      {/* StarsAndProductivity with sound effects, length follows starsGiven */}
+      <Composition
+        id="StarsAndProductivityWithAudio"
+        component={StarsAndProductivityWithAudio}
+        calculateMetadata={calculateStarsAndProductivityWithAudioMetadata}
+        fps={VIDEO_FPS}
+        width={VIDEO_LAYOUTS.vertical.width}
+        height={VIDEO_LAYOUTS.vertical.height}
+        defaultProps={{
+          starsGiven: MOCK_COMPOSITION_PARAMETERS.starsGiven,
+          topWeekday: "3",
+          topHour: "14",
+          graphData: MOCK_PRODUCTIVITY_DATA,
+          rocket: MOCK_COMPOSITION_PARAMETERS.rocket,
+        }}
       />
     </>
   );
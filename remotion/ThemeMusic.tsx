@@ -0,0 +1,78 @@
+import React from "react";
+import { Audio, Sequence, interpolate, useVideoConfig } from "remotion";
+import type { Rocket } from "../src/config";
+import { getRocketTheme } from "./rocket-themes";
+import { getThemeMusicSegments, type ThemeMusicSegment } from "./theme-music";
+
+export const THEME_MUSIC_VOLUME = 0.3;
+
+const getSegmentVolume = (
+  segment: ThemeMusicSegment,
+  volume: number,
+): ((f: number) => number) => {
+  return (f) => {
+    const fadeIn =
+      segment.fadeInFrames > 0
+        ? interpolate(f, [0, segment.fadeInFrames], [0, 1], {
+            extrapolateLeft: "clamp",
+            extrapolateRight: "clamp",
+          })
+        : 1;
+    const fadeOut =
+      segment.fadeOutFrames > 0
+        ? interpolate(
+            f,
+            [
+              segment.durationInFrames - segment.fadeOutFrames,
+              segment.durationInFrames,
+            ],
+            [1, 0],
+            {
+              extrapolateLeft: "clamp",
+              extrapolateRight: "clamp",
+            },
+          )
+        : 1;
+
+    return volume * fadeIn * fadeOut;
+  };
+};
+
+/**
+ * Background music of the rocket theme, cut to end exactly with the
+ * composition it is placed in (see `getThemeMusicSegments()`).
+ */
+export const ThemeMusic: React.FC<{
+  readonly rocket: Rocket;
+  readonly volume?: number;
+}> = ({ rocket, volume = THEME_MUSIC_VOLUME }) => {
+  const { durationInFrames, fps } = useVideoConfig();
+
+  const segments = getThemeMusicSegments({
+    music: getRocketTheme(rocket).music,
+    durationInFrames,
+    fps,
+  });
+
+  return (
+    <>
+      {segments.map((segment) => {
+        return (
+          <Sequence
+            key={segment.from}
+            name="Theme music"
+            from={segment.from}
+            durationInFrames={segment.durationInFrames}
+            layout="none"
+          >
+            <Audio
+              src={segment.src}
+              startFrom={segment.startFrom}
+              volume={getSegmentVolume(segment, volume)}
+            />
+          </Sequence>
+        );
+      })}
+    </>
+  );
+};
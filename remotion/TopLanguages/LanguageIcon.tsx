@@ -0,0 +1,44 @@
+import React from "react";
+import { Img } from "remotion";
+import type { TopLanguage } from "../../src/config";
+import { getLanguageIcon } from "./language-icons";
+
+// parseTopLanguage() also falls back to black when GitHub has no color
+const FALLBACK_BADGE_COLOR = "black";
+
+export const LanguageIcon: React.FC<{
+  readonly language: TopLanguage;
+  readonly size: number;
+}> = ({ language, size }) => {
+  if (language.type === "designed") {
+    return (
+      <Img
+        src={getLanguageIcon(language.name)}
+        style={{ width: size, height: size, objectFit: "contain" }}
+      />
+    );
+  }
+
+  return (
+    <div
+      style={{
+        width: size,
+        height: size,
+        borderRadius: size / 2,
+        backgroundColor: language.color ?? FALLBACK_BADGE_COLOR,
+        border: "4px solid rgba(255, 255, 255, 0.6)",
+        boxSizing: "border-box",
+        display: "flex",
+        justifyContent: "center",
+        alignItems: "center",
+        color: "white",
+        fontFamily: "Mona Sans",
+        fontWeight: "bold",
+        fontSize: size * 0.38,
+        textShadow: "0 2px 6px rgba(0, 0, 0, 0.4)",
+      }}
+    >
+      {language.name.slice(0, 2)}
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import React from "react";
+import { interpolate, spring, useCurrentFrame, useVideoConfig } from "remotion";
+import type { Rocket, TopLanguage } from "../../src/config";
+import { PaneEffect } from "../PaneEffect";
+import {
+  PANE_BACKGROUND,
+  PANE_BORDER,
+  PANE_TEXT_COLOR,
+} from "../test-scenes/components/Pane";
+import { LanguageIcon } from "./LanguageIcon";
+
+const ICON_SIZE = 110;
+const BAR_FILL_DURATION = 40;
+
+export const LanguageRow: React.FC<{
+  readonly language: TopLanguage;
+  readonly rank: number;
+  readonly delay: number;
+  readonly rocket: Rocket;
+}> = ({ language, rank, delay, rocket }) => {
+  const frame = useCurrentFrame();
+  const { fps, width } = useVideoConfig();
+
+  const enter = spring({
+    fps,
+    frame,
+    delay,
+    config: {
+      damping: 200,
+    },
+  });
+
+  // Bar and number fill up together once the row has settled
+  const fill = spring({
+    fps,
+    frame,
+    delay: delay + 15,
+    config: {
+      damping: 200,
+    },
+    durationInFrames: BAR_FILL_DURATION,
+  });
+
+  const percent = language.percent * fill;
+  const translateX = interpolate(enter, [0, 1], [width, 0]);
+
+  return (
+    <PaneEffect
+      innerRadius={40}
+      padding={14}
+      pinkHighlightOpacity={rank === 1 ? 0.3 : 0}
+      whiteHighlightOpacity={1}
+      rocket={rocket}
+      style={{
+        transform: `translateX(${translateX}px)`,
+        opacity: enter,
+      }}
+    >
+      <div
+        style={{
+          display: "flex",
+          flexDirection: "row",
+          alignItems: "center",
+          gap: 30,
+          width: 820,
+          padding: "24px 40px",
+          borderRadius: 40,
+          backgroundColor: PANE_BACKGROUND,
+          border: PANE_BORDER,
+          color: PANE_TEXT_COLOR,
+          fontFamily: "Mona Sans",
+        }}
+      >
+        <div style={{ fontSize: 50, fontWeight: "bold", width: 50 }}>
+          {rank}
+        </div>
+        <LanguageIcon language={language} size={ICON_SIZE} />
+        <div style={{ flex: 1, display: "flex", flexDirection: "column" }}>
+          <div
+            style={{
+              display: "flex",
+              justifyContent: "space-between",
+              fontSize: 45,
+              fontWeight: "bold",
+            }}
+          >
+            <span>{language.name}</span>
+            <span style={{ fontVariantNumeric: "tabular-nums" }}>
+              {Math.round(percent)}%
+            </span>
+          </div>
+          <div
+            style={{
+              marginTop: 16,
+              height: 16,
+              borderRadius: 8,
+              backgroundColor: "rgba(1, 6, 74, 0.15)",
+              overflow: "hidden",
+            }}
+          >
+            <div
+              style={{
+                height: "100%",
+                width: `${percent}%`,
+                borderRadius: 8,
+                backgroundColor: PANE_TEXT_COLOR,
+              }}
+            />
+          </div>
+        </div>
+      </div>
+    </PaneEffect>
+  );
+};
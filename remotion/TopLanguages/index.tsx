@@ -0,0 +1,108 @@
+/**
+ * TOP LANGUAGES SCENE
+ *
+ * Shows the user's top 1-3 languages as panes that slide in one after the
+ * other, each with a bar filling up to its share.
+ *
+ * - "designed" languages (see `LanguagesEnum`) use their icon from
+ *   public/languages/
+ * - "other" languages get a round badge in their GitHub `color`
+ */
+
+import React from "react";
+import {
+  AbsoluteFill,
+  interpolate,
+  spring,
+  useCurrentFrame,
+  useVideoConfig,
+} from "remotion";
+import type { z } from "zod";
+import { rocketSchema, topLanguagesSchema } from "../../src/config";
+import { TOP_LANGUAGES_DURATION } from "../../types/constants";
+import { Gradient } from "../Gradients/NativeGradient";
+import { Noise } from "../Noise";
+import { getRocketTheme } from "../rocket-themes";
+import { LanguageRow } from "./LanguageRow";
+
+export { TOP_LANGUAGES_DURATION };
+
+const FIRST_ROW_DELAY = 25;
+const ROW_STAGGER = 20;
+const EXIT_DURATION = 20;
+
+export const topLanguagesSceneSchema = topLanguagesSchema.extend({
+  rocket: rocketSchema,
+});
+
+export const TopLanguagesScene: React.FC<
+  z.infer<typeof topLanguagesSceneSchema>
+> = ({ language1, language2, language3, rocket }) => {
+  const frame = useCurrentFrame();
+  const { fps, durationInFrames } = useVideoConfig();
+
+  const languages = [language1, language2, language3].filter(
+    (language) => language !== null,
+  );
+
+  const titleEnter = spring({
+    fps,
+    frame,
+    config: {
+      damping: 200,
+    },
+  });
+
+  const exit = interpolate(
+    frame,
+    [durationInFrames - EXIT_DURATION, durationInFrames],
+    [0, 1],
+    {
+      extrapolateLeft: "clamp",
+      extrapolateRight: "clamp",
+    },
+  );
+
+  return (
+    <AbsoluteFill>
+      <AbsoluteFill>
+        <Gradient gradient={getRocketTheme(rocket).gradient} />
+        <Noise translateX={0} translateY={0} rocket={rocket} />
+      </AbsoluteFill>
+      <AbsoluteFill
+        style={{
+          justifyContent: "center",
+          alignItems: "center",
+          gap: 40,
+          opacity: 1 - exit,
+          transform: `scale(${1 + exit * 0.2})`,
+        }}
+      >
+        <div
+          style={{
+            color: "white",
+            fontFamily: "Mona Sans",
+            fontWeight: "bold",
+            fontSize: 70,
+            marginBottom: 20,
+            opacity: titleEnter,
+            transform: `translateY(${interpolate(titleEnter, [0, 1], [-60, 0])}px)`,
+          }}
+        >
+          {languages.length === 1 ? "My top language" : "My top languages"}
+        </div>
+        {languages.map((language, i) => {
+          return (
+            <LanguageRow
+              key={language.name}
+              language={language}
+              rank={i + 1}
+              delay={FIRST_ROW_DELAY + i * ROW_STAGGER}
+              rocket={rocket}
+            />
+          );
+        })}
+      </AbsoluteFill>
+    </AbsoluteFill>
+  );
+};
@@ -0,0 +1,25 @@
+import { staticFile } from "remotion";
+import type { z } from "zod";
+import type { LanguagesEnum } from "../../src/config";
+
+type DesignedLanguage = z.infer<typeof LanguagesEnum>;
+
+// File names in public/languages/ - symbols aren't safe in URLs
+const languageIconFiles: Record<DesignedLanguage, string> = {
+  Java: "java.png",
+  Python: "python.png",
+  JavaScript: "javascript.png",
+  TypeScript: "typescript.png",
+  Go: "go.png",
+  Rust: "rust.png",
+  C: "c.png",
+  "C++": "cplusplus.png",
+  Ruby: "ruby.png",
+  PHP: "php.png",
+  Nix: "nix.png",
+  "C#": "csharp.png",
+};
+
+export const getLanguageIcon = (language: DesignedLanguage) => {
+  return staticFile(`languages/${languageIconFiles[language]}`);
+};
@@ -0,0 +1,61 @@
+import { describe, expect, test } from "vitest";
+import { MOCK_COMPOSITION_PARAMETERS } from "./test-scenes/components/MockData";
+import { getUnwrappedDuration, getUnwrappedSegments } from "./Unwrapped";
+
+describe("getUnwrappedDuration()", () => {
+  test("adds up the segments, minus their overlaps", () => {
+    const segments = getUnwrappedSegments(MOCK_COMPOSITION_PARAMETERS);
+    const lengths = segments.reduce(
+      (total, segment) => total + segment.durationInFrames,
+      0,
+    );
+    const overlaps = segments
+      .slice(0, -1)
+      .reduce((total, segment) => total + segment.overlapWithNext, 0);
+
+    expect(overlaps).toBeGreaterThan(0);
+    expect(getUnwrappedDuration(MOCK_COMPOSITION_PARAMETERS)).toBe(
+      lengths - overlaps,
+    );
+  });
+
+  test("ignores the overlap of the last segment", () => {
+    const segments = getUnwrappedSegments(MOCK_COMPOSITION_PARAMETERS);
+
+    expect(segments[segments.length - 1].id).toBe("end-card");
+    expect(segments[segments.length - 1].overlapWithNext).toBe(0);
+  });
+
+  test("skips the top languages of users without languages", () => {
+    const withoutLanguages = {
+      ...MOCK_COMPOSITION_PARAMETERS,
+      topLanguages: null,
+    };
+    const topLanguages = getUnwrappedSegments(MOCK_COMPOSITION_PARAMETERS).find(
+      (segment) => segment.id === "top-languages",
+    );
+
+    expect(
+      getUnwrappedSegments(withoutLanguages).map((segment) => segment.id),
+    ).not.toContain("top-languages");
+    expect(getUnwrappedDuration(withoutLanguages)).toBe(
+      getUnwrappedDuration(MOCK_COMPOSITION_PARAMETERS) -
+        (topLanguages?.durationInFrames ?? 0),
+    );
+  });
+
+  test("gets longer with more stars and more closed issues", () => {
+    const duration = getUnwrappedDuration(MOCK_COMPOSITION_PARAMETERS);
+
+    expect(
+      getUnwrappedDuration({ ...MOCK_COMPOSITION_PARAMETERS, starsGiven: 0 }),
+    ).toBeLessThan(duration);
+    expect(
+      getUnwrappedDuration({
+        ...MOCK_COMPOSITION_PARAMETERS,
+        issuesOpened: 0,
+        issuesClosed: 0,
+      }),
+    ).toBeLessThan(duration);
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * ════════════════════════════════════════════════════════════════════════════
+ * UNWRAPPED - MASTER COMPOSITION
+ * ════════════════════════════════════════════════════════════════════════════
+ *
+ * Plays every scene of the video back to back, driven by a single
+ * `compositionSchema` props object (the output of
+ * `computeCompositionParameters()`).
+ *
+ * The order and length of the scenes is described by `getUnwrappedSegments()`.
+ * Both the component and `calculateUnwrappedMetadata` read from it, so the
+ * total duration always matches what is actually rendered.
+ *
+ * OVERLAPS:
+ * A segment can overlap the next one by `overlapWithNext` frames (e.g. the
+ * Opening flies out while the stars already start). The next segment then
+ * starts that many frames early and the total duration shrinks accordingly.
+ *
+ * MUSIC:
+ * The theme music spans the whole video instead of single scenes, so that it
+ * can be cut to end exactly on the last frame (see `ThemeMusic`).
+ */
+
+import React from "react";
+import type { CalculateMetadataFunction } from "remotion";
+import { AbsoluteFill, Series } from "remotion";
+import type { CompositionParameters } from "../src/config";
+import {
+  CONTRIBUTIONS_SCENE_LENGTH,
+  ContributionsScene,
+} from "./Contributions";
+import { END_CARD_LENGTH, EndCardScene } from "./EndCard";
+import { IssuesScene, getIssuesSceneDuration } from "./Issues";
+import {
+  LONGEST_STREAK_SCENE_LENGTH,
+  LongestStreakScene,
+} from "./LongestStreak";
+import {
+  OPENING_SCENE_LENGTH,
+  OPENING_SCENE_OUT_OVERLAP,
+  OpeningScene,
+} from "./Opening";
+import { isMobileDevice } from "./Opening/devices";
+import { PLANET_SCENE_LENGTH, PlanetScene } from "./Planet";
+import { PULL_REQUESTS_SCENE_LENGTH, PullRequestsScene } from "./PullRequests";
+import {
+  StarsAndProductivityReplica,
+  getStarsAndProductivityDuration,
+  getStarsAndProductivityOutOverlap,
+} from "./test-scenes/StarsAndProductivityReplica";
+import { ThemeMusic } from "./ThemeMusic";
+import { TOP_LANGUAGES_DURATION, TopLanguagesScene } from "./TopLanguages";
+
+type Segment = {
+  id: string;
+  durationInFrames: number;
+  /**
+   * How many frames the next segment starts before this one ends.
+   */
+  overlapWithNext: number;
+  render: () => React.ReactNode;
+};
+
+export const getUnwrappedSegments = (
+  props: CompositionParameters,
+): Segment[] => {
+  const segments: Segment[] = [
+    {
+      id: "opening",
+      durationInFrames: OPENING_SCENE_LENGTH,
+      overlapWithNext: OPENING_SCENE_OUT_OVERLAP,
+      render: () => (
+        <OpeningScene
+          login={props.login}
+          startAngle={props.openingSceneStartAngle}
+          rocket={props.rocket}
+        />
+      ),
+    },
+    {
+      id: "stars-and-productivity",
+      durationInFrames: getStarsAndProductivityDuration({
+        starsGiven: props.starsGiven,
+      }),
+      // The cockpit zoom continues into the pull requests scene
+      overlapWithNext: getStarsAndProductivityOutOverlap({
+        starsGiven: props.starsGiven,
+      }),
+      render: () => (
+        <StarsAndProductivityReplica
+          starsGiven={props.starsGiven}
+          topWeekday={props.topWeekday}
+          topHour={props.topHour}
+          graphData={props.graphData}
+          totalPullRequests={props.totalPullRequests}
+          sampleStarredRepos={props.sampleStarredRepos}
+          rocket={props.rocket}
+        />
+      ),
+    },
+    {
+      id: "pull-requests",
+      durationInFrames: PULL_REQUESTS_SCENE_LENGTH,
+      overlapWithNext: 0,
+      render: () => (
+        <PullRequestsScene
+          totalPullRequests={props.totalPullRequests}
+          rocket={props.rocket}
+        />
+      ),
+    },
+  ];
+
+  // Users without any repositories have no languages to show
+  const { topLanguages } = props;
+  if (topLanguages) {
+    segments.push({
+      id: "top-languages",
+      durationInFrames: TOP_LANGUAGES_DURATION,
+      overlapWithNext: 0,
+      render: () => (
+        <TopLanguagesScene {...topLanguages} rocket={props.rocket} />
+      ),
+    });
+  }
+
+  segments.push({
+    id: "contributions",
+    durationInFrames: CONTRIBUTIONS_SCENE_LENGTH,
+    overlapWithNext: 0,
+    render: () => (
+      <ContributionsScene
+        year={props.year}
+        contributionData={props.contributionData}
+        totalContributions={props.totalContributions}
+        longestStreak={props.longestStreak}
+        rocket={props.rocket}
+      />
+    ),
+  });
+
+  segments.push({
+    id: "longest-streak",
+    durationInFrames: LONGEST_STREAK_SCENE_LENGTH,
+    overlapWithNext: 0,
+    render: () => (
+      <LongestStreakScene
+        contributionData={props.contributionData}
+        longestStreak={props.longestStreak}
+        rocket={props.rocket}
+      />
+    ),
+  });
+
+  segments.push({
+    id: "issues",
+    durationInFrames: getIssuesSceneDuration({
+      issuesOpened: props.issuesOpened,
+      issuesClosed: props.issuesClosed,
+    }),
+    overlapWithNext: 0,
+    render: () => (
+      <IssuesScene
+        login={props.login}
+        issuesOpened={props.issuesOpened}
+        issuesClosed={props.issuesClosed}
+        rocket={props.rocket}
+      />
+    ),
+  });
+
+  segments.push({
+    id: "planet",
+    durationInFrames: PLANET_SCENE_LENGTH,
+    overlapWithNext: 0,
+    render: () => (
+      <PlanetScene
+        planet={props.planet}
+        totalContributions={props.totalContributions}
+        rocket={props.rocket}
+      />
+    ),
+  });
+
+  // Always last: the video should end on the complete card
+  segments.push({
+    id: "end-card",
+    durationInFrames: END_CARD_LENGTH,
+    overlapWithNext: 0,
+    render: () => (
+      <EndCardScene
+        login={props.login}
+        starsGiven={props.starsGiven}
+        totalPullRequests={props.totalPullRequests}
+        issuesOpened={props.issuesOpened}
+        issuesClosed={props.issuesClosed}
+        totalContributions={props.totalContributions}
+        topLanguages={props.topLanguages}
+        planet={props.planet}
+        callToAction={props.callToAction}
+      />
+    ),
+  });
+
+  return segments;
+};
+
+export const getUnwrappedDuration = (props: CompositionParameters) => {
+  const segments = getUnwrappedSegments(props);
+
+  return segments.reduce((total, segment, i) => {
+    const isLast = i === segments.length - 1;
+    return (
+      total + segment.durationInFrames - (isLast ? 0 : segment.overlapWithNext)
+    );
+  }, 0);
+};
+
+export const calculateUnwrappedMetadata: CalculateMetadataFunction<
+  CompositionParameters
+> = ({ props }) => {
+  return {
+    durationInFrames: getUnwrappedDuration(props),
+  };
+};
+
+export const Unwrapped: React.FC<CompositionParameters> = (props) => {
+  const segments = getUnwrappedSegments(props);
+
+  return (
+    <AbsoluteFill style={{ backgroundColor: "black" }}>
+      {isMobileDevice() ? null : <ThemeMusic rocket={props.rocket} />}
+      <Series>
+        {segments.map((segment, i) => {
+          return (
+            <Series.Sequence
+              key={segment.id}
+              name={segment.id}
+              durationInFrames={segment.durationInFrames}
+              // Negative offset = start before the previous segment has ended
+              offset={i === 0 ? 0 : -segments[i - 1].overlapWithNext}
+            >
+              {segment.render()}
+            </Series.Sequence>
+          );
+        })}
+      </Series>
+    </AbsoluteFill>
+  );
+};
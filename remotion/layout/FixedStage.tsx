@@ -0,0 +1,71 @@
+import React, { useMemo } from "react";
+import { Sequence, useVideoConfig } from "remotion";
+import { VIDEO_LAYOUTS } from "../../types/constants";
+import { VideoLayoutContext, getVideoLayout } from "./use-video-layout";
+
+const STAGE = VIDEO_LAYOUTS.square;
+
+/**
+ * Renders content laid out in absolute pixels for the square video inside
+ * a video of any aspect ratio.
+ *
+ * The children see a 1080×1080 `useVideoConfig()` and are scaled to fit
+ * the video. Whatever is rendered next to the stage fills the rest of the
+ * frame, so scenes should keep their full-bleed background outside of it.
+ * Children that lay themselves out per layout get the actual one from
+ * `useVideoLayout()`.
+ *
+ * - `align="center"`: stage in the middle (cockpit, tablet)
+ * - `align="bottom"`: stage sits on the bottom edge, for scenes with ground
+ *   that must not float (opening)
+ */
+export const FixedStage: React.FC<{
+  readonly children: React.ReactNode;
+  readonly align?: "center" | "bottom";
+}> = ({ children, align = "center" }) => {
+  const { width, height } = useVideoConfig();
+
+  const scale = Math.min(width / STAGE.width, height / STAGE.height);
+  const stageHeight = STAGE.height * scale;
+  const stageTop =
+    align === "bottom"
+      ? height - stageHeight - (STAGE.height - stageHeight) / 2
+      : (height - STAGE.height) / 2;
+
+  // The video frame in stage pixels, for children that adapt to the layout
+  const visibleWidth = width / scale;
+  const visibleHeight = height / scale;
+  const layout = useMemo(() => {
+    return {
+      layout: getVideoLayout({ width, height }),
+      visibleArea: {
+        left: (STAGE.width - visibleWidth) / 2,
+        top:
+          align === "bottom"
+            ? STAGE.height - visibleHeight
+            : (STAGE.height - visibleHeight) / 2,
+        width: visibleWidth,
+        height: visibleHeight,
+      },
+    };
+  }, [align, height, visibleHeight, visibleWidth, width]);
+
+  return (
+    <Sequence
+      name="FixedStage"
+      showInTimeline={false}
+      width={STAGE.width}
+      height={STAGE.height}
+      style={{
+        left: (width - STAGE.width) / 2,
+        // The stage is scaled around its center
+        top: stageTop,
+        transform: `scale(${scale})`,
+      }}
+    >
+      <VideoLayoutContext.Provider value={layout}>
+        {children}
+      </VideoLayoutContext.Provider>
+    </Sequence>
+  );
+};
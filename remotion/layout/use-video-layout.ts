@@ -0,0 +1,57 @@
+import { createContext, useContext } from "react";
+import { useVideoConfig } from "remotion";
+import type { VideoLayout } from "../../types/constants";
+
+export type VideoFrameArea = {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+};
+
+export const getVideoLayout = ({
+  width,
+  height,
+}: {
+  width: number;
+  height: number;
+}): VideoLayout => {
+  if (width > height) {
+    return "landscape";
+  }
+
+  if (height > width) {
+    return "vertical";
+  }
+
+  return "square";
+};
+
+/**
+ * Set by `FixedStage`, whose children see a square `useVideoConfig()`
+ */
+export const VideoLayoutContext = createContext<{
+  layout: VideoLayout;
+  visibleArea: VideoFrameArea;
+} | null>(null);
+
+/**
+ * The layout of the video being rendered, also inside a `FixedStage`.
+ *
+ * `visibleArea` is the whole video frame in the coordinates of the
+ * component: the frame itself, or inside a stage the part of the frame
+ * around it, e.g. `top: -420` for the 1080×1920 video.
+ */
+export const useVideoLayout = () => {
+  const stage = useContext(VideoLayoutContext);
+  const { width, height } = useVideoConfig();
+
+  if (stage) {
+    return stage;
+  }
+
+  return {
+    layout: getVideoLayout({ width, height }),
+    visibleArea: { left: 0, top: 0, width, height },
+  };
+};
@@ -0,0 +1,123 @@
+import type { Rocket } from "../src/config";
+import type { GradientType } from "./Gradients/available-gradients";
+
+/**
+ * ROCKET THEMES
+ *
+ * The rocket picked on the landing page is the theme of the whole video.
+ * Every scene looks up its colors and assets here instead of hardcoding the
+ * blue ones, so adding a rocket only means adding an entry to `rocketThemes`.
+ */
+
+export const themeMusicValues = [
+  "blue_theme_music",
+  "gold_theme_music",
+  "red_theme_music",
+] as const;
+export type ThemeMusic = (typeof themeMusicValues)[number];
+
+export type RocketTheme = {
+  /**
+   * Background of the scenes with a radial gradient
+   */
+  gradient: GradientType;
+  /**
+   * Colors of the dots drawn by <Noise />, must be exactly 10
+   */
+  noisePalette: readonly string[];
+  flame: {
+    /**
+     * Only the blue and orange exhaust videos exist in public/
+     */
+    exhaust: "blue" | "orange";
+    /**
+     * CSS filter that tints the exhaust video, null to show it as is
+     */
+    filter: string | null;
+  };
+  /**
+   * CSS filter that tints PinkHighlight.png behind the panes, null to keep pink
+   */
+  paneHighlightFilter: string | null;
+  /**
+   * Folder in public/ containing the background music of this theme
+   */
+  music: ThemeMusic;
+};
+
+export const rocketThemes: Record<Rocket, RocketTheme> = {
+  blue: {
+    gradient: "blueRadial",
+    noisePalette: [
+      "#15466C",
+      "#808080",
+      "#615955",
+      "#726455",
+      "#7CA2C3",
+      "#A1C2C0",
+      "#AAA8A8",
+      "#1C394A",
+      "#3B6773",
+      "#465B79",
+    ],
+    flame: {
+      exhaust: "blue",
+      filter: null,
+    },
+    paneHighlightFilter: null,
+    music: "blue_theme_music",
+  },
+  orange: {
+    gradient: "orangeRadial",
+    noisePalette: [
+      "#6C2A15",
+      "#808080",
+      "#615955",
+      "#726455",
+      "#C3917C",
+      "#C2AFA1",
+      "#AAA8A8",
+      "#4A261C",
+      "#73483B",
+      "#794A46",
+    ],
+    flame: {
+      exhaust: "orange",
+      filter: null,
+    },
+    paneHighlightFilter: "hue-rotate(60deg) saturate(1.4)",
+    music: "red_theme_music",
+  },
+  yellow: {
+    gradient: "yellowRadial",
+    noisePalette: [
+      "#6C5415",
+      "#808080",
+      "#615955",
+      "#726455",
+      "#C3B47C",
+      "#C2BDA1",
+      "#AAA8A8",
+      "#4A3F1C",
+      "#73653B",
+      "#796C46",
+    ],
+    flame: {
+      exhaust: "orange",
+      // There is no yellow exhaust video, shift the orange one towards gold
+      filter: "hue-rotate(20deg) saturate(1.3) brightness(1.1)",
+    },
+    paneHighlightFilter: "hue-rotate(85deg) saturate(1.6)",
+    music: "gold_theme_music",
+  },
+};
+
+for (const [rocket, theme] of Object.entries(rocketThemes)) {
+  if (theme.noisePalette.length !== 10) {
+    throw new Error(`Noise palette of the ${rocket} theme must have 10 colors`);
+  }
+}
+
+export const getRocketTheme = (rocket: Rocket): RocketTheme => {
+  return rocketThemes[rocket];
+};
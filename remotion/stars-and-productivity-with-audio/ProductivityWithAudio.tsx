@@ -1,7 +1,6 @@
 import gsap from "gsap";
 import React from "react";
-import { AbsoluteFill, Audio, useCurrentFrame } from "remotion";
-import { AUDIO_FILES, AUDIO_TIMING, AUDIO_VOLUMES } from "./audio-constants";
+import { AbsoluteFill, useCurrentFrame } from "remotion";
 import type { ProductivityDataPoint } from "./constants";
 import { TopDayWithAudio } from "./TopDayWithAudio";
 
@@ -15,7 +14,7 @@ import { TopDayWithAudio } from "./TopDayWithAudio";
  * 1. Weekday wheel (most productive day)
  * 2. Hour wheel (most productive time)
  * 3. Bar graph (hourly productivity data)
- * 4. Sound effects for animations
+ * 4. Delays of the animations that sound effects are cued to
  *
  * LAYOUT:
  * ┌─────────────────────────────────┐
@@ -34,11 +33,24 @@ import { TopDayWithAudio } from "./TopDayWithAudio";
  * Frame 70-170:  Hour wheel spins
  *
  * AUDIO:
- * Frame 180: Bars animation sound (wham)
+ * FIRST_BAR_DELAY, WEEKDAY_WHEEL_DELAY and HOUR_WHEEL_DELAY are scene events
+ * (relative to the tablet) that the sounds in audio-constants.ts are cued to
  *
  * ═══════════════════════════════════════════════════════════════════════════
  */
 
+// ============================================================================
+// SCENE EVENTS
+// ============================================================================
+
+/**
+ * Frames after the tablet enters at which the first bar starts growing and
+ * the wheels start spinning
+ */
+export const FIRST_BAR_DELAY = 30;
+export const WEEKDAY_WHEEL_DELAY = 60;
+export const HOUR_WHEEL_DELAY = 70;
+
 // ============================================================================
 // BAR COMPONENT
 // ============================================================================
@@ -79,7 +91,7 @@ const Bar = (props: {
    * - Creates visual flow
    * - Easier to track individual bars
    */
-  const DELAY_FRAMES = 30 + props.index * 2;
+  const DELAY_FRAMES = FIRST_BAR_DELAY + props.index * 2;
   const DURATION_FRAMES = 60;
 
   /**
@@ -261,27 +273,6 @@ export const ProductivityWithAudio: React.FC<ProductivityProps> = ({
 }) => {
   return (
     <AbsoluteFill style={{ display: "flex", flexDirection: "column", gap: 20 }}>
-      {/* ═══════════════════════════════════════════════════════════════════ */}
-      {/* AUDIO: BARS ANIMATION SOUND                                         */}
-      {/* ═══════════════════════════════════════════════════════════════════ */}
-
-      {/**
-       * Bars animation sound effect
-       *
-       * Plays when bars start animating (frame 180)
-       * Wham sound (impact/emphasis)
-       *
-       * Timing:
-       * - Tablet scene starts at frame 150
-       * - First bar starts at frame 30 (relative)
-       * - 150 + 30 = 180 (absolute frame)
-       */}
-      <Audio
-        src={AUDIO_FILES.BARS_ANIMATE}
-        startFrom={AUDIO_TIMING.BARS_ANIMATE}
-        volume={AUDIO_VOLUMES.BARS_ANIMATE}
-      />
-
       {/* ═══════════════════════════════════════════════════════════════════ */}
       {/* WEEKDAY WHEEL                                                       */}
       {/* ═══════════════════════════════════════════════════════════════════ */}
@@ -292,7 +283,7 @@ export const ProductivityWithAudio: React.FC<ProductivityProps> = ({
        * Values: 7 days (Monday-Sunday)
        * Radius: 130px (smaller wheel)
        * Delay: 60 frames (relative to tablet scene)
-       * Sound: Frame 195 (150 + 45)
+       * Sound: 15 frames before the wheel starts (WEEKDAY_WHEEL cue)
        */}
       <TopDayWithAudio
         values={[
@@ -308,8 +299,7 @@ export const ProductivityWithAudio: React.FC<ProductivityProps> = ({
         value={weekday}
         radius={130}
         renderLabel={(value) => value} // No formatting needed
-        delay={60}
-        soundDelay={95}
+        delay={WEEKDAY_WHEEL_DELAY}
       />
 
       {/* ═══════════════════════════════════════════════════════════════════ */}
@@ -322,7 +312,7 @@ export const ProductivityWithAudio: React.FC<ProductivityProps> = ({
        * Values: 24 hours (0-23)
        * Radius: 300px (larger wheel)
        * Delay: 70 frames (10 frames after weekday)
-       * Sound: Frame 220 (150 + 70)
+       * Sound: When the wheel starts (HOUR_WHEEL cue)
        *
        * Label formatting:
        * - 0 → "12 am"
@@ -360,7 +350,7 @@ export const ProductivityWithAudio: React.FC<ProductivityProps> = ({
         label="Most productive time"
         value={hour}
         radius={300}
-        delay={70}
+        delay={HOUR_WHEEL_DELAY}
         renderLabel={(value) => {
           // Format hour as 12-hour time
           if (value === "12") return "12 pm";
@@ -368,7 +358,6 @@ export const ProductivityWithAudio: React.FC<ProductivityProps> = ({
           if (Number(value) > 12) return `${Number(value) - 12} pm`;
           return `${value} am`;
         }}
-        soundDelay={120}
       />
 
       {/* ═══════════════════════════════════════════════════════════════════ */}
@@ -414,7 +403,7 @@ export const ProductivityWithAudio: React.FC<ProductivityProps> = ({
 
 /**
  * To adjust bar animation:
- * - Change DELAY_FRAMES for start time
+ * - Change FIRST_BAR_DELAY for start time (the sound follows)
  * - Modify stagger (index * 2) for wave speed
  * - Adjust DURATION_FRAMES for animation speed
  *
@@ -424,7 +413,6 @@ export const ProductivityWithAudio: React.FC<ProductivityProps> = ({
  * - Adjust border color/width
  *
  * To modify wheel timing:
- * - Change delay prop (when wheel starts)
- * - Adjust soundDelay (when sound plays)
+ * - Change WEEKDAY_WHEEL_DELAY / HOUR_WHEEL_DELAY (the sounds follow)
  * - Update radius for wheel size
  */
@@ -1,7 +1,6 @@
 import gsap from "gsap";
 import React from "react";
-import { AbsoluteFill, Audio, interpolate, useCurrentFrame } from "remotion";
-import { AUDIO_FILES, AUDIO_TIMING, AUDIO_VOLUMES } from "./audio-constants";
+import { AbsoluteFill, interpolate, useCurrentFrame } from "remotion";
 
 /**
  * ═══════════════════════════════════════════════════════════════════════════
@@ -15,8 +14,8 @@ import { AUDIO_FILES, AUDIO_TIMING, AUDIO_VOLUMES } from "./audio-constants";
  * WHAT IT DOES:
  * 1. Fades in a purple gradient background
  * 2. Animates in "Stars Given" text with scale and opacity
- * 3. Shows the stars count number prominently
- * 4. Plays a whoosh sound effect when text appears
+ * 3. Counts the stars up, one step per star (at most MAX_COUNTED_STARS)
+ * 4. Starts the text at STARS_TEXT_DELAY, which the whoosh sound is cued to
  * 5. Fades out smoothly to transition to tablet scene
  *
  * KEY CONCEPTS TO LEARN:
@@ -27,18 +26,43 @@ import { AUDIO_FILES, AUDIO_TIMING, AUDIO_VOLUMES } from "./audio-constants";
  * ✅ Audio component integration
  * ✅ Frame-based timing synchronization
  *
- * ANIMATION TIMELINE:
+ * ANIMATION TIMELINE (starsGiven ≤ 6, see getStarFlyDuration()):
  * Frame 0-10:   Background fades in (opacity 0 → 1)
  * Frame 10-60:  Text scales and fades in (scale 0.5 → 1, opacity 0 → 1)
- * Frame 60-120: Hold (everything visible)
+ * Frame 60-120: Count up and hold (longer with more stars)
  * Frame 120-150: Fade out (opacity 1 → 0)
  *
  * AUDIO:
- * Frame 10: Whoosh sound effect (synchronized with text animation)
+ * STARS_TEXT_DELAY is the "stars-text-enter" scene event: the whoosh sound
+ * is cued to it in audio-constants.ts
  *
  * ═══════════════════════════════════════════════════════════════════════════
  */
 
+// ============================================================================
+// SCENE EVENTS
+// ============================================================================
+
+/**
+ * Frame at which the text starts animating in (after the background is visible)
+ */
+export const STARS_TEXT_DELAY = 10;
+
+const TEXT_ANIMATION_DURATION = 50;
+const FADE_OUT_DURATION = 30;
+
+/**
+ * The count goes up one step every TIME_PER_COUNTED_STAR frames, like the
+ * stars flying in one by one in the test scene
+ */
+const TIME_PER_COUNTED_STAR = 10;
+const MAX_COUNTED_STARS = 20;
+const MIN_HOLD_DURATION = 60;
+
+const getCountDuration = (starsGiven: number) => {
+  return Math.min(starsGiven, MAX_COUNTED_STARS) * TIME_PER_COUNTED_STAR;
+};
+
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
@@ -112,8 +136,8 @@ export const StarsGivenWithAudio: React.FC<Props> = ({ starsGiven, style }) => {
    * - Total: Frames 10-60
    */
 
-  const textDelay = 10; // Start after background is visible
-  const textDuration = 50; // Animation length
+  const textDelay = STARS_TEXT_DELAY; // Start after background is visible
+  const textDuration = TEXT_ANIMATION_DURATION; // Animation length
 
   /**
    * Calculate raw progress (0 to 1)
@@ -185,18 +209,41 @@ export const StarsGivenWithAudio: React.FC<Props> = ({ starsGiven, style }) => {
    * Fade out animation for transition to tablet scene
    *
    * What: Fades entire scene from visible to invisible
-   * When: Frames 120-150
+   * When: The last FADE_OUT_DURATION frames of the scene
    * Why: Smooth transition, not abrupt cut
    *
-   * Timeline:
+   * Timeline (150 frame scene):
    * Frame 120: opacity = 1 (fully visible)
    * Frame 135: opacity = 0.5 (half faded)
    * Frame 150: opacity = 0 (invisible)
    */
-  const fadeOutOpacity = interpolate(frame, [120, 150], [1, 0], {
-    extrapolateLeft: "clamp", // Stay at 1 before frame 120
-    extrapolateRight: "clamp", // Stay at 0 after frame 150
-  });
+  const duration = getStarFlyDuration({ starsGiven });
+  const fadeOutOpacity = interpolate(
+    frame,
+    [duration - FADE_OUT_DURATION, duration],
+    [1, 0],
+    {
+      extrapolateLeft: "clamp", // Stay at 1 before the fade out
+      extrapolateRight: "clamp", // Stay at 0 after the scene
+    },
+  );
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // ANIMATION 4: COUNT UP
+  // ══════════════════════════════════════════════════════════════════════════
+
+  const countStart = textDelay + textDuration;
+  const countedStars = Math.round(
+    interpolate(
+      frame,
+      [countStart, countStart + Math.max(1, getCountDuration(starsGiven))],
+      [0, starsGiven],
+      {
+        extrapolateLeft: "clamp",
+        extrapolateRight: "clamp",
+      },
+    ),
+  );
 
   // ══════════════════════════════════════════════════════════════════════════
   // RENDER
@@ -204,27 +251,6 @@ export const StarsGivenWithAudio: React.FC<Props> = ({ starsGiven, style }) => {
 
   return (
     <AbsoluteFill style={style}>
-      {/* ═══════════════════════════════════════════════════════════════════ */}
-      {/* AUDIO: WHOOSH SOUND EFFECT                                          */}
-      {/* ═══════════════════════════════════════════════════════════════════ */}
-
-      {/**
-       * Whoosh sound effect
-       *
-       * Plays when text starts animating (frame 10)
-       * Creates audio-visual synchronization
-       *
-       * Props:
-       * - src: Audio file path from constants
-       * - startFrom: Frame number when sound should play
-       * - volume: 0.0 to 1.0 (0.5 = 50% volume)
-       */}
-      <Audio
-        src={AUDIO_FILES.STARS_WHOOSH}
-        startFrom={AUDIO_TIMING.STARS_WHOOSH}
-        volume={AUDIO_VOLUMES.STARS_WHOOSH}
-      />
-
       {/* ═══════════════════════════════════════════════════════════════════ */}
       {/* LAYER 1: GRADIENT BACKGROUND                                        */}
       {/* ═══════════════════════════════════════════════════════════════════ */}
@@ -334,7 +360,7 @@ export const StarsGivenWithAudio: React.FC<Props> = ({ starsGiven, style }) => {
             fontFamily: "Mona Sans",
           }}
         >
-          {starsGiven}
+          {countedStars}
         </div>
 
         {/* ═════════════════════════════════════════════════════════════════ */}
@@ -373,23 +399,25 @@ export const StarsGivenWithAudio: React.FC<Props> = ({ starsGiven, style }) => {
  *
  * Returns the total duration of the StarsGiven scene
  *
- * Why a function instead of a constant?
- * - In GitHub Unwrapped, duration varies based on stars count
- * - More stars = longer animation (stars fly in one by one)
- * - We're using a fixed duration for simplicity
- *
- * Duration: 150 frames
- * At 30fps: 150 / 30 = 5 seconds
+ * Like in GitHub Unwrapped, it depends on the stars count: the count goes
+ * up one step per star (up to MAX_COUNTED_STARS), so more stars = longer
+ * scene. The scene events after it move along (see getSceneEvents()).
  *
  * Breakdown:
- * - 0-10: Background fade (0.33s)
- * - 10-60: Text animate (1.67s)
- * - 60-120: Hold (2s)
- * - 120-150: Fade out (1s)
- * Total: 5 seconds
+ * - 0-10: Background fade
+ * - 10-60: Text animate
+ * - Count up, at least MIN_HOLD_DURATION (60 frames = 2s)
+ * - Fade out: 30 frames (1s)
+ *
+ * Examples: 5 stars → 150 frames, 20 stars or more → 290 frames
  */
-export const getStarFlyDuration = () => {
-  return 150; // Fixed duration: 150 frames (~5 seconds at 30fps)
+export const getStarFlyDuration = ({ starsGiven }: { starsGiven: number }) => {
+  return (
+    STARS_TEXT_DELAY +
+    TEXT_ANIMATION_DURATION +
+    Math.max(MIN_HOLD_DURATION, getCountDuration(starsGiven)) +
+    FADE_OUT_DURATION
+  );
 };
 
 // ============================================================================
@@ -419,9 +447,10 @@ export const getStarFlyDuration = () => {
  * 3. Test contrast with white text
  *
  * To adjust animation timing:
- * 1. Change textDelay for when text starts
- * 2. Change textDuration for animation speed
- * 3. Update fade out range [120, 150]
+ * 1. Change STARS_TEXT_DELAY for when text starts (the whoosh follows)
+ * 2. Change TEXT_ANIMATION_DURATION for animation speed
+ * 3. Change FADE_OUT_DURATION, the fade out always ends with the scene
+ * 4. Change TIME_PER_COUNTED_STAR to count faster or slower
  *
  * To use a different easing:
  * 1. Try: "power1.out", "power3.out", "elastic.out", "back.out"
@@ -431,5 +460,5 @@ export const getStarFlyDuration = () => {
  * To change the audio:
  * 1. Update AUDIO_FILES.STARS_WHOOSH in audio-constants.ts
  * 2. Adjust volume in AUDIO_VOLUMES if needed
- * 3. Fine-tune timing in AUDIO_TIMING
+ * 3. Fine-tune its offset from the text in AUDIO_CUES
  */
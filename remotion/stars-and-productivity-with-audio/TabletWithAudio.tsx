@@ -1,7 +1,6 @@
 import gsap from "gsap";
 import React from "react";
-import { AbsoluteFill, Audio, useCurrentFrame } from "remotion";
-import { AUDIO_FILES, AUDIO_TIMING, AUDIO_VOLUMES } from "./audio-constants";
+import { AbsoluteFill, useCurrentFrame } from "remotion";
 import type { ProductivityDataPoint } from "./constants";
 import { ProductivityWithAudio } from "./ProductivityWithAudio";
 import { TabletSVG } from "./TabletSVG";
@@ -22,7 +21,7 @@ import { TabletSVG } from "./TabletSVG";
  * 3. Counter-transforms the chart to appear inside the screen
  * 4. Zooms and rotates during transition
  * 5. Slides back down (exit animation)
- * 6. Plays entry sound effect
+ * 6. Its first frame is the "tablet-enter" scene event (entry sound cue)
  *
  * KEY CONCEPTS:
  * ✅ Dual animation (entry + exit)
@@ -354,22 +353,6 @@ export const TabletWithAudio: React.FC<Props> = ({
         transform: `translateY(${800 - entryProgress * 800}px)`,
       }}
     >
-      {/* ═══════════════════════════════════════════════════════════════════ */}
-      {/* AUDIO: TABLET ENTRY SOUND                                           */}
-      {/* ═══════════════════════════════════════════════════════════════════ */}
-
-      {/**
-       * Tablet entry sound effect
-       *
-       * Plays when tablet starts sliding up (frame 150)
-       * Decelerate sound (whoosh/swoosh)
-       */}
-      <Audio
-        src={AUDIO_FILES.TABLET_ENTRY}
-        startFrom={AUDIO_TIMING.TABLET_ENTRY}
-        volume={AUDIO_VOLUMES.TABLET_ENTRY}
-      />
-
       {/* ═══════════════════════════════════════════════════════════════════ */}
       {/* LAYER 1: TABLET FRAME (HANDS + DEVICE)                              */}
       {/* ═══════════════════════════════════════════════════════════════════ */}
@@ -1,6 +1,5 @@
 import React from "react";
-import { AbsoluteFill, Audio } from "remotion";
-import { AUDIO_FILES, AUDIO_TIMING, AUDIO_VOLUMES } from "./audio-constants";
+import { AbsoluteFill } from "remotion";
 import { WheelWithAudio } from "./WheelWithAudio";
 
 /**
@@ -11,14 +10,13 @@ import { WheelWithAudio } from "./WheelWithAudio";
  * PURPOSE:
  * Displays a pane with a label and a 3D rotating wheel showing the most
  * productive day/hour. This is a wrapper component that combines the wheel
- * with styling, masking effects, and audio.
+ * with styling and masking effects.
  *
  * WHAT IT DOES:
  * 1. Creates a rounded pane with glass-morphism styling
  * 2. Displays a label on the left (e.g., "Most productive day")
  * 3. Shows a rotating wheel on the right
  * 4. Applies gradient mask for fade effect
- * 5. Plays sound when wheel starts spinning
  *
  * KEY CONCEPTS TO LEARN:
  * ✅ Component composition (wrapping child components)
@@ -26,7 +24,6 @@ import { WheelWithAudio } from "./WheelWithAudio";
  * ✅ Absolute positioning and layering
  * ✅ Props forwarding to child components
  * ✅ Glass-morphism styling patterns
- * ✅ Audio integration with timing
  *
  * VISUAL DESIGN:
  * - Semi-transparent background (glass effect)
@@ -159,12 +156,6 @@ type Props = {
    * When the wheel starts spinning
    */
   delay: number;
-
-  /**
-   * Sound delay in frames
-   * When the audio should play
-   */
-  soundDelay: number;
 };
 
 // ============================================================================
@@ -178,7 +169,6 @@ export const TopDayWithAudio: React.FC<Props> = ({
   radius,
   renderLabel,
   delay,
-  soundDelay,
 }) => {
   // ══════════════════════════════════════════════════════════════════════════
   // GRADIENT MASK CONFIGURATION
@@ -220,39 +210,6 @@ export const TopDayWithAudio: React.FC<Props> = ({
    */
   const maskImage = `linear-gradient(to bottom, transparent 0%, rgba(0, 0, 0, 1) 30%, rgba(0, 0, 0, 1) 70%, transparent 100%)`;
 
-  // ══════════════════════════════════════════════════════════════════════════
-  // AUDIO CONFIGURATION
-  // ══════════════════════════════════════════════════════════════════════════
-
-  /**
-   * Determine which audio to play
-   *
-   * Logic:
-   * - If soundDelay is 95: Weekday wheel (first wheel)
-   * - If soundDelay is 120: Hour wheel (second wheel)
-   *
-   * Why different sounds?
-   * - Could use same sound for both
-   * - Or different sounds for variety
-   * - Currently using same sound (glockenspiel)
-   *
-   * Timing:
-   * - soundDelay is relative to tablet scene start (frame 150)
-   * - Actual frame = 150 + soundDelay
-   * - Weekday: 150 + 95 = 245
-   * - Hour: 150 + 120 = 270
-   */
-  const isWeekdayWheel = soundDelay === 95;
-  const audioFile = isWeekdayWheel
-    ? AUDIO_FILES.WEEKDAY_WHEEL
-    : AUDIO_FILES.HOUR_WHEEL;
-  const audioTiming = isWeekdayWheel
-    ? AUDIO_TIMING.WEEKDAY_WHEEL
-    : AUDIO_TIMING.HOUR_WHEEL;
-  const audioVolume = isWeekdayWheel
-    ? AUDIO_VOLUMES.WEEKDAY_WHEEL
-    : AUDIO_VOLUMES.HOUR_WHEEL;
-
   // ══════════════════════════════════════════════════════════════════════════
   // RENDER
   // ══════════════════════════════════════════════════════════════════════════
@@ -296,22 +253,6 @@ export const TopDayWithAudio: React.FC<Props> = ({
          */
       }}
     >
-      {/* ═══════════════════════════════════════════════════════════════════ */}
-      {/* AUDIO: WHEEL SPINNING SOUND                                         */}
-      {/* ═══════════════════════════════════════════════════════════════════ */}
-
-      {/**
-       * Wheel spinning sound effect
-       *
-       * Plays when wheel starts spinning
-       * Glockenspiel sound (bell-like, pleasant)
-       *
-       * Timing:
-       * - Weekday: Frame 195
-       * - Hour: Frame 220
-       */}
-      <Audio src={audioFile} startFrom={audioTiming} volume={audioVolume} />
-
       {/* ═══════════════════════════════════════════════════════════════════ */}
       {/* LABEL TEXT (LEFT SIDE)                                              */}
       {/* ═══════════════════════════════════════════════════════════════════ */}
@@ -417,7 +358,6 @@ export const TopDayWithAudio: React.FC<Props> = ({
            * - values: All possible values
            * - value: Selected value
            * - delay: Animation start time
-           * - soundDelay: Audio start time
            */}
           <WheelWithAudio
             renderLabel={renderLabel}
@@ -425,7 +365,6 @@ export const TopDayWithAudio: React.FC<Props> = ({
             values={values}
             value={value}
             delay={delay}
-            soundDelay={soundDelay}
           />
         </AbsoluteFill>
       </div>
@@ -447,7 +386,6 @@ export const TopDayWithAudio: React.FC<Props> = ({
  *   radius={130}
  *   renderLabel={(value) => value}
  *   delay={60}
- *   soundDelay={95}
  * />
  */
 
@@ -466,7 +404,6 @@ export const TopDayWithAudio: React.FC<Props> = ({
  *     return `${value} am`;
  *   }}
  *   delay={70}
- *   soundDelay={120}
  * />
  */
 
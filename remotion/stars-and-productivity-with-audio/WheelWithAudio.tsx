@@ -77,12 +77,6 @@ type Props = {
    * Example: 60 for weekday, 70 for hour
    */
   delay: number;
-
-  /**
-   * When sound should play (not used in this component)
-   * Sound is triggered in parent component
-   */
-  soundDelay: number;
 };
 
 // ============================================================================
@@ -447,7 +441,6 @@ export const WheelWithAudio: React.FC<Props> = ({
  *   radius={130}
  *   renderLabel={(value) => value}
  *   delay={60}
- *   soundDelay={95}
  * />
  */
 
@@ -465,7 +458,6 @@ export const WheelWithAudio: React.FC<Props> = ({
  *     return `${value} am`;
  *   }}
  *   delay={70}
- *   soundDelay={120}
  * />
  */
 
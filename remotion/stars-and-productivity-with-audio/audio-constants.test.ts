@@ -0,0 +1,33 @@
+import { describe, expect, test } from "vitest";
+import { getAudioTiming } from "./audio-constants";
+import { getSceneEvents } from "./index";
+
+describe("getAudioTiming()", () => {
+  test("resolves the cues of a 150 frame stars scene", () => {
+    expect(getAudioTiming(getSceneEvents({ starsGiven: 5 }))).toEqual({
+      STARS_WHOOSH: 10,
+      TABLET_ENTRY: 150,
+      BARS_ANIMATE: 180,
+      WEEKDAY_WHEEL: 195,
+      HOUR_WHEEL: 220,
+    });
+  });
+
+  test("moves the cues after the stars scene along with its length", () => {
+    const few = getAudioTiming(getSceneEvents({ starsGiven: 5 }));
+    const many = getAudioTiming(getSceneEvents({ starsGiven: 42 }));
+
+    expect(many.STARS_WHOOSH).toBe(few.STARS_WHOOSH);
+    expect(many.TABLET_ENTRY - few.TABLET_ENTRY).toBe(140);
+    expect(many.HOUR_WHEEL - few.HOUR_WHEEL).toBe(140);
+  });
+
+  test("throws for a cue before the start of the scene", () => {
+    expect(() =>
+      getAudioTiming({
+        ...getSceneEvents({ starsGiven: 5 }),
+        "weekday-wheel-start": 10,
+      }),
+    ).toThrow(/WEEKDAY_WHEEL/);
+  });
+});
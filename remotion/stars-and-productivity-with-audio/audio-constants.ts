@@ -21,14 +21,11 @@ import { staticFile } from "remotion";
  * All audio files are loaded from the public/ directory using staticFile()
  * This ensures they're properly bundled and accessible during rendering
  */
+/**
+ * The background music is not listed here: <ThemeMusic /> picks the cut of
+ * the rocket theme's track that fits the composition duration.
+ */
 export const AUDIO_FILES = {
-  /**
-   * Background Music
-   * - Loops continuously throughout the scene
-   * - Volume kept low (0.3) to not overpower SFX
-   */
-  BACKGROUND_MUSIC: staticFile("music/robots-preview.mp3"),
-
   /**
    * Stars Scene SFX
    * - Plays when stars count appears
@@ -66,63 +63,96 @@ export const AUDIO_FILES = {
 };
 
 // ============================================================================
-// AUDIO TIMING (in frames)
+// SCENE EVENTS
 // ============================================================================
 
 /**
- * Frame numbers when each sound should start playing
- * All relative to the scene start (frame 0)
+ * Moments of the scene that sounds are synchronized to
  *
- * Timeline:
- * Frame 0:   Background music starts
- * Frame 10:  Stars whoosh (when text animates in)
- * Frame 150: Tablet entry (when tablet slides up)
- * Frame 180: Bars animate (when first bars start growing)
- * Frame 195: Weekday wheel (when wheel starts spinning)
- * Frame 220: Hour wheel (when second wheel starts spinning)
+ * Their frames depend on how long the previous scenes are, so they are not
+ * hardcoded here: getSceneEvents() in index.tsx computes them from the actual
+ * scene durations (e.g. getStarFlyDuration()).
  */
-export const AUDIO_TIMING = {
-  /**
-   * Background music starts immediately
-   */
-  BACKGROUND_MUSIC: 0,
+export type SceneEvent =
+  | "stars-text-enter" // Stars text starts animating in
+  | "tablet-enter" // Tablet scene begins (its Sequence "from")
+  | "first-bar" // First productivity bar starts growing
+  | "weekday-wheel-start" // Weekday wheel starts spinning
+  | "hour-wheel-start"; // Hour wheel starts spinning
 
-  /**
-   * Stars whoosh at frame 10
-   * - Matches when text starts animating (delay = 10)
-   * - Creates synchronized audio-visual feedback
-   */
-  STARS_WHOOSH: 10,
+export type SceneEventFrames = Record<SceneEvent, number>;
 
-  /**
-   * Tablet entry at frame 150
-   * - This is when the tablet scene begins
-   * - Matches the Sequence "from" prop
-   */
-  TABLET_ENTRY: 150,
+// ============================================================================
+// AUDIO CUES
+// ============================================================================
 
+type AudioCue = {
   /**
-   * Bars animate at frame 180
-   * - First bar starts at frame 30 (relative to tablet scene)
-   * - 150 (tablet start) + 30 = 180
+   * Scene event the sound is synchronized to
    */
-  BARS_ANIMATE: 180,
-
+  event: SceneEvent;
   /**
-   * Weekday wheel at frame 195
-   * - Wheel delay is 60 frames (relative to tablet scene)
-   * - But we want sound slightly before (95 frames)
-   * - 150 (tablet start) + 45 (sound advance) = 195
+   * Frames between the event and the sound (negative = before the event)
    */
-  WEEKDAY_WHEEL: 195,
+  offset: number;
+};
 
+/**
+ * When each sound should start playing, relative to a scene event
+ *
+ * With a 150 frame stars scene (getStarFlyDuration() for ≤ 6 stars) this
+ * resolves to:
+ * Frame 10:  Stars whoosh (when text animates in)
+ * Frame 150: Tablet entry (when tablet slides up)
+ * Frame 180: Bars animate (when first bars start growing)
+ * Frame 195: Weekday wheel (slightly before the wheel starts spinning)
+ * Frame 220: Hour wheel (when second wheel starts spinning)
+ */
+export const AUDIO_CUES = {
+  STARS_WHOOSH: { event: "stars-text-enter", offset: 0 },
+  TABLET_ENTRY: { event: "tablet-enter", offset: 0 },
+  BARS_ANIMATE: { event: "first-bar", offset: 0 },
   /**
-   * Hour wheel at frame 220
-   * - Wheel delay is 70 frames (relative to tablet scene)
-   * - Sound advance of 50 frames
-   * - 150 (tablet start) + 70 (delay) = 220
+   * Slightly before the wheel starts spinning
    */
-  HOUR_WHEEL: 220,
+  WEEKDAY_WHEEL: { event: "weekday-wheel-start", offset: -15 },
+  HOUR_WHEEL: { event: "hour-wheel-start", offset: 0 },
+} satisfies Record<keyof typeof AUDIO_FILES, AudioCue>;
+
+// ============================================================================
+// AUDIO TIMING (in frames)
+// ============================================================================
+
+/**
+ * Frame numbers when each sound should start playing
+ * All relative to the scene start (frame 0)
+ *
+ * Resolved from AUDIO_CUES, so the sounds stay in sync when a scene gets
+ * longer or shorter. Throws for a cue that would start before the scene,
+ * instead of silently moving it.
+ */
+export const getAudioTiming = (
+  events: SceneEventFrames,
+): Record<AudioTimingKey, number> => {
+  const resolve = (key: AudioTimingKey) => {
+    const { event, offset } = AUDIO_CUES[key];
+    const frame = events[event] + offset;
+    if (frame < 0) {
+      throw new Error(
+        `${key} is cued ${offset} frames from "${event}" (frame ${events[event]}), which is before the scene starts`,
+      );
+    }
+
+    return frame;
+  };
+
+  return {
+    STARS_WHOOSH: resolve("STARS_WHOOSH"),
+    TABLET_ENTRY: resolve("TABLET_ENTRY"),
+    BARS_ANIMATE: resolve("BARS_ANIMATE"),
+    WEEKDAY_WHEEL: resolve("WEEKDAY_WHEEL"),
+    HOUR_WHEEL: resolve("HOUR_WHEEL"),
+  };
 };
 
 // ============================================================================
@@ -142,7 +172,7 @@ export const AUDIO_TIMING = {
  */
 export const AUDIO_VOLUMES = {
   /**
-   * Background music - kept low to not overpower SFX
+   * Background music (<ThemeMusic />) - kept low to not overpower SFX
    */
   BACKGROUND_MUSIC: 0.3,
 
@@ -181,7 +211,7 @@ export const AUDIO_VOLUMES = {
  * Ensures type safety when using these constants
  */
 export type AudioFileKey = keyof typeof AUDIO_FILES;
-export type AudioTimingKey = keyof typeof AUDIO_TIMING;
+export type AudioTimingKey = keyof typeof AUDIO_CUES;
 export type AudioVolumeKey = keyof typeof AUDIO_VOLUMES;
 
 // ============================================================================
@@ -191,34 +221,28 @@ export type AudioVolumeKey = keyof typeof AUDIO_VOLUMES;
 /**
  * Example 1: Playing background music
  *
- * <Audio
- *   src={AUDIO_FILES.BACKGROUND_MUSIC}
- *   startFrom={AUDIO_TIMING.BACKGROUND_MUSIC}
- *   volume={AUDIO_VOLUMES.BACKGROUND_MUSIC}
- *   loop
- * />
+ * <ThemeMusic rocket={rocket} volume={AUDIO_VOLUMES.BACKGROUND_MUSIC} />
  */
 
 /**
  * Example 2: Playing a sound effect
  *
- * <Audio
- *   src={AUDIO_FILES.STARS_WHOOSH}
- *   startFrom={AUDIO_TIMING.STARS_WHOOSH}
- *   volume={AUDIO_VOLUMES.STARS_WHOOSH}
- * />
+ * // startFrom would trim the start of the sound, a Sequence delays it
+ * const audioTiming = getAudioTiming(getSceneEvents({ starsGiven }));
+ * <Sequence from={audioTiming.STARS_WHOOSH} layout="none">
+ *   <Audio
+ *     src={AUDIO_FILES.STARS_WHOOSH}
+ *     volume={AUDIO_VOLUMES.STARS_WHOOSH}
+ *   />
+ * </Sequence>
  */
 
 /**
- * Example 3: Adjusting timing for a specific scene
+ * Example 3: Cueing a sound to a new moment of the scene
  *
- * // If your scene starts at frame 100 instead of 0:
- * const sceneOffset = 100;
- * <Audio
- *   src={AUDIO_FILES.TABLET_ENTRY}
- *   startFrom={AUDIO_TIMING.TABLET_ENTRY + sceneOffset}
- *   volume={AUDIO_VOLUMES.TABLET_ENTRY}
- * />
+ * // 1. Add the event to SceneEvent and compute it in getSceneEvents()
+ * // 2. Reference it from AUDIO_CUES:
+ * MY_SOUND: { event: "my-event", offset: 0 },
  */
 
 // ============================================================================
@@ -232,8 +256,8 @@ export type AudioVolumeKey = keyof typeof AUDIO_VOLUMES;
  * 3. Adjust volume in AUDIO_VOLUMES if needed
  *
  * To adjust timing:
- * 1. Find the frame where you want the sound to play
- * 2. Update the value in AUDIO_TIMING
+ * 1. Find the scene event the sound belongs to
+ * 2. Update the event or offset in AUDIO_CUES
  * 3. Test in Remotion Studio to verify synchronization
  *
  * To fine-tune volumes:
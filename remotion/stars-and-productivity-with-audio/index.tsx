@@ -1,9 +1,22 @@
 import gsap from "gsap";
 import React, { useMemo } from "react";
+import type { CalculateMetadataFunction } from "remotion";
 import { AbsoluteFill, Audio, Sequence, useCurrentFrame } from "remotion";
-import { AUDIO_FILES, AUDIO_TIMING, AUDIO_VOLUMES } from "./audio-constants";
+import type { Rocket } from "../../src/config";
+import { ThemeMusic } from "../ThemeMusic";
+import type { AudioTimingKey, SceneEventFrames } from "./audio-constants";
+import { AUDIO_FILES, AUDIO_VOLUMES, getAudioTiming } from "./audio-constants";
 import type { ProductivityDataPoint } from "./constants";
-import { StarsGivenWithAudio, getStarFlyDuration } from "./StarsGivenWithAudio";
+import {
+  FIRST_BAR_DELAY,
+  HOUR_WHEEL_DELAY,
+  WEEKDAY_WHEEL_DELAY,
+} from "./ProductivityWithAudio";
+import {
+  STARS_TEXT_DELAY,
+  StarsGivenWithAudio,
+  getStarFlyDuration,
+} from "./StarsGivenWithAudio";
 import { TabletWithAudio } from "./TabletWithAudio";
 
 /**
@@ -32,7 +45,8 @@ import { TabletWithAudio } from "./TabletWithAudio";
  * ✅ useMemo for performance optimization
  * ✅ Background music integration
  *
- * SCENE FLOW:
+ * SCENE FLOW (frames for starsGiven ≤ 6, more stars make the stars scene
+ * longer and move everything after it, see getStarFlyDuration()):
  * ┌─────────────────────────────────────────────────────────────────────────┐
  * │ Frame 0-150:    StarsGiven (with zoom-out transition)                   │
  * │ Frame 150-300:  Tablet (with zoom-in transition)                        │
@@ -40,12 +54,16 @@ import { TabletWithAudio } from "./TabletWithAudio";
  * └─────────────────────────────────────────────────────────────────────────┘
  *
  * AUDIO TIMELINE:
- * Frame 0:   Background music starts (loops)
- * Frame 10:  Stars whoosh (from StarsGiven component)
- * Frame 150: Tablet entry (from Tablet component)
- * Frame 180: Bars animate (from Productivity component)
- * Frame 195: Weekday wheel (from TopDay component)
- * Frame 220: Hour wheel (from TopDay component)
+ * Frame 0:   Theme music starts (cut to end with the composition)
+ * Frame 10:  Stars whoosh (when the stars text animates in)
+ * Frame 150: Tablet entry (when the tablet scene starts)
+ * Frame 180: Bars animate (when the first bar grows)
+ * Frame 195: Weekday wheel (slightly before the wheel spins)
+ * Frame 220: Hour wheel (when the wheel spins)
+ *
+ * These frames are not hardcoded: every sound is cued to a scene event in
+ * AUDIO_CUES, and getSceneEvents() computes the events from the actual
+ * scene durations.
  *
  * ═══════════════════════════════════════════════════════════════════════════
  */
@@ -76,6 +94,7 @@ const TABLET_ENTER_DURATION = 45; // Entry animation duration (1.5 seconds)
  * - topWeekday: Most productive day (e.g., "3" for Thursday)
  * - topHour: Most productive hour (e.g., "14" for 2 PM)
  * - graphData: Hourly productivity data for the bar chart
+ * - rocket: Theme whose music plays in the background
  *
  * Example props:
  * {
@@ -90,6 +109,7 @@ type Props = {
   topWeekday: string; // Most productive weekday (0-6)
   topHour: string; // Most productive hour (0-23)
   graphData: ProductivityDataPoint[]; // 24 hours of data
+  rocket: Rocket; // Theme of the background music
 };
 
 // ============================================================================
@@ -106,8 +126,8 @@ type Props = {
  * - Tablet visible: 150 frames
  * - Total: 300 frames (tablet starts hiding at frame 300)
  */
-const getTimeUntilTabletHides = () => {
-  return getStarFlyDuration() + TABLET_SCENE_LENGTH;
+const getTimeUntilTabletHides = ({ starsGiven }: { starsGiven: number }) => {
+  return getStarFlyDuration({ starsGiven }) + TABLET_SCENE_LENGTH;
 };
 
 /**
@@ -120,10 +140,56 @@ const getTimeUntilTabletHides = () => {
  * - Hide animation: 45 frames
  * - Total: 345 frames (11.5 seconds at 30fps)
  *
- * This is exported so Root.tsx can set the composition duration
+ * This is exported so Root.tsx can set the composition duration, through
+ * calculateStarsAndProductivityWithAudioMetadata
+ */
+export const getStarsAndProductivityDuration = ({
+  starsGiven,
+}: {
+  starsGiven: number;
+}) => {
+  return getTimeUntilTabletHides({ starsGiven }) + TABLET_SCENE_HIDE_ANIMATION;
+};
+
+/**
+ * calculateMetadata for the composition: its duration follows the
+ * `starsGiven` of the props, and <ThemeMusic /> is cut to that duration
  */
-export const getStarsAndProductivityDuration = () => {
-  return getTimeUntilTabletHides() + TABLET_SCENE_HIDE_ANIMATION;
+export const calculateStarsAndProductivityWithAudioMetadata: CalculateMetadataFunction<
+  Props
+> = ({ props }) => {
+  return {
+    durationInFrames: getStarsAndProductivityDuration({
+      starsGiven: props.starsGiven,
+    }),
+  };
+};
+
+/**
+ * Calculate the frames of the scene events that sounds are cued to
+ *
+ * The tablet (and everything in it) starts after the stars scene, so its
+ * events move together with getStarFlyDuration()
+ *
+ * Example:
+ * - StarsGiven: 150 frames
+ * - Tablet enters: frame 150
+ * - First bar: 150 + 30 = frame 180
+ */
+export const getSceneEvents = ({
+  starsGiven,
+}: {
+  starsGiven: number;
+}): SceneEventFrames => {
+  const tabletEnter = getStarFlyDuration({ starsGiven });
+
+  return {
+    "stars-text-enter": STARS_TEXT_DELAY,
+    "tablet-enter": tabletEnter,
+    "first-bar": tabletEnter + FIRST_BAR_DELAY,
+    "weekday-wheel-start": tabletEnter + WEEKDAY_WHEEL_DELAY,
+    "hour-wheel-start": tabletEnter + HOUR_WHEEL_DELAY,
+  };
 };
 
 // ============================================================================
@@ -135,6 +201,7 @@ export const StarsAndProductivityWithAudio: React.FC<Props> = ({
   topWeekday,
   topHour,
   graphData,
+  rocket,
 }) => {
   const frame = useCurrentFrame();
 
@@ -151,18 +218,22 @@ export const StarsAndProductivityWithAudio: React.FC<Props> = ({
    * - Memoizing prevents unnecessary recalculations
    * - Improves rendering performance
    *
-   * Dependencies: [] (empty array)
-   * - Means: Calculate once, never recalculate
-   * - Safe because values are constant
+   * Dependencies: [starsGiven]
+   * - Means: Calculate once per stars count
+   * - The durations only depend on starsGiven
    */
 
   const starFlyDuration = useMemo(() => {
-    return getStarFlyDuration(); // 150 frames
-  }, []);
+    return getStarFlyDuration({ starsGiven }); // 150 frames for ≤ 6 stars
+  }, [starsGiven]);
 
   const timeUntilTabletHides = useMemo(() => {
-    return getTimeUntilTabletHides(); // 300 frames
-  }, []);
+    return getTimeUntilTabletHides({ starsGiven }); // 300 frames for ≤ 6 stars
+  }, [starsGiven]);
+
+  const audioTiming = useMemo(() => {
+    return getAudioTiming(getSceneEvents({ starsGiven }));
+  }, [starsGiven]);
 
   // ══════════════════════════════════════════════════════════════════════════
   // ZOOM TRANSITION ANIMATION
@@ -376,25 +447,42 @@ export const StarsAndProductivityWithAudio: React.FC<Props> = ({
        * Background music
        *
        * Plays throughout the entire composition
-       * Loops continuously for seamless playback
+       * ThemeMusic picks the cut of the theme track that fits the
+       * composition duration, so it ends together with the video
        *
        * Props:
-       * - src: Music file path
-       * - startFrom: Frame 0 (starts immediately)
+       * - rocket: Theme whose track is played
        * - volume: 0.3 (30% - low to not overpower SFX)
-       * - loop: true (repeats indefinitely)
        *
        * Why low volume?
        * - Background music should be atmospheric
        * - Sound effects need to be clearly audible
        * - 30% provides ambiance without distraction
        */}
-      <Audio
-        src={AUDIO_FILES.BACKGROUND_MUSIC}
-        startFrom={AUDIO_TIMING.BACKGROUND_MUSIC}
-        volume={AUDIO_VOLUMES.BACKGROUND_MUSIC}
-        loop
-      />
+      <ThemeMusic rocket={rocket} volume={AUDIO_VOLUMES.BACKGROUND_MUSIC} />
+
+      {/* ═══════════════════════════════════════════════════════════════════ */}
+      {/* AUDIO: SOUND EFFECTS                                                */}
+      {/* ═══════════════════════════════════════════════════════════════════ */}
+
+      {/**
+       * Sound effects
+       *
+       * Played here instead of inside the scenes, because audioTiming is
+       * relative to the composition start while the scenes run in
+       * Sequences with their own frame counter
+       *
+       * Why a Sequence?
+       * - <Audio startFrom> trims the start of the file, it does not delay it
+       * - Sequence "from" delays the sound to the resolved frame
+       */}
+      {(Object.keys(audioTiming) as AudioTimingKey[]).map((key) => {
+        return (
+          <Sequence key={key} name={key} from={audioTiming[key]} layout="none">
+            <Audio src={AUDIO_FILES[key]} volume={AUDIO_VOLUMES[key]} />
+          </Sequence>
+        );
+      })}
 
       {/* ═══════════════════════════════════════════════════════════════════ */}
       {/* SCENE 1: STARS GIVEN (WITH ZOOM-OUT TRANSITION)                     */}
@@ -464,13 +552,13 @@ export const StarsAndProductivityWithAudio: React.FC<Props> = ({
 /**
  * Example usage in Root.tsx:
  *
- * import { StarsAndProductivityWithAudio, getStarsAndProductivityDuration } from "./stars-and-productivity-with-audio";
+ * import { StarsAndProductivityWithAudio, calculateStarsAndProductivityWithAudioMetadata } from "./stars-and-productivity-with-audio";
  * import { MOCK_PRODUCTIVITY_DATA } from "./stars-and-productivity-with-audio/constants";
  *
  * <Composition
  *   id="StarsAndProductivityWithAudio"
  *   component={StarsAndProductivityWithAudio}
- *   durationInFrames={getStarsAndProductivityDuration()}
+ *   calculateMetadata={calculateStarsAndProductivityWithAudioMetadata}
  *   fps={30}
  *   width={1080}
  *   height={1920}
@@ -479,6 +567,7 @@ export const StarsAndProductivityWithAudio: React.FC<Props> = ({
  *     topWeekday: "3",  // Thursday (0-indexed)
  *     topHour: "14",    // 2 PM
  *     graphData: MOCK_PRODUCTIVITY_DATA,
+ *     rocket: "blue",
  *   }}
  * />
  */
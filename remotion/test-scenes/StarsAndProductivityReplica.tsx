@@ -17,11 +17,18 @@
  * ✅ Component layering and composition
  * ✅ Persistent background rendering
  *
+ * DATA:
+ * All user data arrives as props validated by `starsAndProductivitySchema`
+ * (a subset of `compositionSchema`). The composition length is derived from
+ * the props via `calculateStarsAndProductivityMetadata`, so a user with more
+ * stars gets a longer video without touching any source file.
+ *
  * DOCUMENTATION:
  * See /test-scenes/documents/00-SCENE-OVERVIEW.md for detailed explanation
  */
 
 import React, { useMemo } from "react";
+import type { CalculateMetadataFunction } from "remotion";
 import {
   AbsoluteFill,
   Sequence,
@@ -30,9 +37,14 @@ import {
   useCurrentFrame,
   useVideoConfig,
 } from "remotion";
+import type { z } from "zod";
+import { compositionSchema } from "../../src/config";
+import { FixedStage } from "../layout/FixedStage";
+import { Noise } from "../Noise";
+import { getRocketTheme } from "../rocket-themes";
 import {
   MOCK_GRAPH_DATA,
-  MOCK_LOGIN,
+  MOCK_ROCKET,
   MOCK_SAMPLE_STARRED_REPOS,
   MOCK_STARS_GIVEN,
   MOCK_TOP_HOUR,
@@ -40,7 +52,6 @@ import {
   MOCK_TOTAL_PULL_REQUESTS,
 } from "./components/MockData";
 import { Gradient } from "./components/NativeGradient";
-import { Noise } from "./components/Noise";
 import { StarsGiven, getStarFlyDuration } from "./components/StarsGiven";
 import {
   TABLET_SCENE_ENTER_ANIMATION,
@@ -49,6 +60,45 @@ import {
   TABLET_SCENE_LENGTH,
   Tablet,
 } from "./components/Tablet";
+import { getTransitionToPullRequestStart } from "./components/transition-to-pull-request";
+
+// ════════════════════════════════════════════════════════════════════════════
+// PROPS SCHEMA
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * The fields of `compositionSchema` this scene actually reads.
+ *
+ * Picking from the master schema (instead of declaring a new one) guarantees
+ * that `computeCompositionParameters()` output can be passed straight in.
+ */
+export const starsAndProductivitySchema = compositionSchema.pick({
+  starsGiven: true,
+  topWeekday: true,
+  topHour: true,
+  graphData: true,
+  totalPullRequests: true,
+  sampleStarredRepos: true,
+  rocket: true,
+});
+
+export type StarsAndProductivityProps = z.infer<
+  typeof starsAndProductivitySchema
+>;
+
+/**
+ * Default props for the Studio, built from MockData.
+ * Edit them in the Studio sidebar to preview other users.
+ */
+export const starsAndProductivityDefaultProps: StarsAndProductivityProps = {
+  starsGiven: MOCK_STARS_GIVEN,
+  topWeekday: MOCK_TOP_WEEKDAY,
+  topHour: MOCK_TOP_HOUR,
+  graphData: MOCK_GRAPH_DATA,
+  totalPullRequests: MOCK_TOTAL_PULL_REQUESTS,
+  sampleStarredRepos: MOCK_SAMPLE_STARRED_REPOS,
+  rocket: MOCK_ROCKET,
+};
 
 // ════════════════════════════════════════════════════════════════════════════
 // TIMING CONSTANTS
@@ -99,11 +149,56 @@ export const getStarsAndProductivityDuration = ({
   return getTimeUntilTabletHides({ starsGiven }) + 60;
 };
 
+/**
+ * How many frames before the end of this scene the cockpit starts zooming
+ * towards the pull request scene.
+ *
+ * The zoom is still running when this scene ends, so the next scene should
+ * start this many frames early to pick up the motion instead of cutting.
+ */
+export const getStarsAndProductivityOutOverlap = ({
+  starsGiven,
+}: {
+  starsGiven: number;
+}) => {
+  const transitionStart = getTransitionToPullRequestStart({
+    timeUntilTabletHides: getTimeUntilTabletHides({ starsGiven }),
+  });
+
+  return getStarsAndProductivityDuration({ starsGiven }) - transitionStart;
+};
+
+/**
+ * calculateMetadata for the composition.
+ *
+ * Runs before rendering (and whenever props change in the Studio), so the
+ * video length always matches the `starsGiven` of the props being rendered.
+ */
+export const calculateStarsAndProductivityMetadata: CalculateMetadataFunction<
+  StarsAndProductivityProps
+> = ({ props }) => {
+  return {
+    durationInFrames: getStarsAndProductivityDuration({
+      starsGiven: props.starsGiven,
+    }),
+  };
+};
+
 // ════════════════════════════════════════════════════════════════════════════
 // MAIN COMPONENT
 // ════════════════════════════════════════════════════════════════════════════
 
-export const StarsAndProductivityReplica: React.FC = () => {
+export const StarsAndProductivityReplica: React.FC<
+  StarsAndProductivityProps
+> = ({
+  starsGiven,
+  topWeekday,
+  topHour,
+  graphData,
+  totalPullRequests,
+  sampleStarredRepos,
+  rocket,
+}) => {
   // ──────────────────────────────────────────────────────────────────────────
   // HOOKS & FRAME TRACKING
   // ──────────────────────────────────────────────────────────────────────────
@@ -120,17 +215,15 @@ export const StarsAndProductivityReplica: React.FC = () => {
   const { fps } = useVideoConfig();
 
   // ──────────────────────────────────────────────────────────────────────────
-  // SCENE DATA (from MockData)
+  // SCENE DATA (from props)
   // ──────────────────────────────────────────────────────────────────────────
-
-  /**
-   * Number of stars given (GitHub stars)
-   * This determines:
-   * - How many stars fly across the screen
-   * - Duration of the stars phase
-   * - When the tablet scene begins
-   */
-  const starsGiven = MOCK_STARS_GIVEN;
+  //
+  // starsGiven         → how many stars fly, and therefore the scene length
+  // topWeekday         → "0" (Monday) to "6" (Sunday), shown on the day wheel
+  // topHour            → "0" to "23", shown on the hour wheel
+  // graphData          → 24 entries (one per hour) for the bar graph
+  // totalPullRequests  → passed to the cockpit HUD
+  // sampleStarredRepos → repo names shown when stars hit the spaceship
 
   /**
    * Whether to show the spaceship cockpit
@@ -138,40 +231,6 @@ export const StarsAndProductivityReplica: React.FC = () => {
    */
   const showCockpit = true;
 
-  /**
-   * Most productive weekday (0 = Monday, 6 = Sunday)
-   * Displayed on the rotating wheel in the tablet scene
-   */
-  const topWeekday = MOCK_TOP_WEEKDAY;
-
-  /**
-   * Most productive hour (0-23, 24-hour format)
-   * Displayed on the hour wheel in the tablet scene
-   */
-  const topHour = MOCK_TOP_HOUR;
-
-  /**
-   * Productivity data for the bar graph
-   * Array of 24 objects (one per hour)
-   */
-  const graphData = MOCK_GRAPH_DATA;
-
-  /**
-   * Total pull requests count (displayed on cockpit HUD)
-   */
-  const totalPullRequests = MOCK_TOTAL_PULL_REQUESTS;
-
-  /**
-   * GitHub username
-   */
-  const login = MOCK_LOGIN;
-
-  /**
-   * Array of sample starred repositories
-   * Displayed briefly when stars hit the spaceship
-   */
-  const sampleStarredRepos = MOCK_SAMPLE_STARRED_REPOS;
-
   // ──────────────────────────────────────────────────────────────────────────
   // TIMING CALCULATIONS (Memoized for performance)
   // ──────────────────────────────────────────────────────────────────────────
@@ -379,84 +438,92 @@ export const StarsAndProductivityReplica: React.FC = () => {
        * - This ensures no "transparent" gaps during transitions
        *
        * Components:
-       * - Gradient: Radial blue gradient (blueRadial)
+       * - Gradient: Radial gradient of the rocket theme
        * - Noise: Animated grain/texture overlay for depth
        */}
       <AbsoluteFill style={{ opacity: gradientOpacity }}>
-        <Gradient gradient="blueRadial" />
-        <Noise translateX={0} translateY={0} />
+        <Gradient gradient={getRocketTheme(rocket).gradient} />
+        <Noise translateX={0} translateY={0} rocket={rocket} />
       </AbsoluteFill>
 
-      {/* ═══════════════════════════════════════════════════════════════════
-          LAYER 2: STARS & COCKPIT (Conditionally Rendered)
-          ════════════════════════════════════════════════════════════════ */}
-
       {/**
-       * Conditional rendering of the stars and cockpit scene.
-       *
-       * VISIBLE WHEN:
-       * - Current frame < timeUntilTabletIsEntered (stars phase)
-       * - OR current frame > timeUntilTabletHides (after tablet)
-       *
-       * HIDDEN WHEN:
-       * - Tablet is on screen (fully zoomed into cockpit)
-       *
-       * Props passed to StarsGiven:
-       * - starsGiven: Number of stars to animate
-       * - showCockpit: Display spaceship HUD
-       * - style: Zoom/fade transform (from zoomTransition)
-       * - totalPullRequests: Displayed on cockpit HUD
-       * - sampleStarredRepos: Repo names shown on star hits
-       * - timeUntilTabletHides: When to start zoom-out
-       * - timeUntilTabletHasEntered: When tablet is fully visible
+       * Layers 2 and 3 are laid out in pixels for the square video.
+       * FixedStage fits them into vertical and landscape videos, while the
+       * background above stays full-bleed.
        */}
-      {frame < timeUntilTabletIsEntered || frame > timeUntilTabletHides ? (
-        <StarsGiven
-          starsGiven={starsGiven}
-          showCockpit={showCockpit}
-          style={style}
-          totalPullRequests={totalPullRequests}
-          sampleStarredRepos={sampleStarredRepos}
-          timeUntilTabletHides={timeUntilTabletHides}
-          timeUntilTabletHasEntered={timeUntilTabletIsEntered}
-        />
-      ) : null}
+      <FixedStage>
+        {/* ═══════════════════════════════════════════════════════════════════
+          LAYER 2: STARS & COCKPIT (Conditionally Rendered)
+          ════════════════════════════════════════════════════════════════ */}
 
-      {/* ═══════════════════════════════════════════════════════════════════
+        {/**
+         * Conditional rendering of the stars and cockpit scene.
+         *
+         * VISIBLE WHEN:
+         * - Current frame < timeUntilTabletIsEntered (stars phase)
+         * - OR current frame > timeUntilTabletHides (after tablet)
+         *
+         * HIDDEN WHEN:
+         * - Tablet is on screen (fully zoomed into cockpit)
+         *
+         * Props passed to StarsGiven:
+         * - starsGiven: Number of stars to animate
+         * - showCockpit: Display spaceship HUD
+         * - style: Zoom/fade transform (from zoomTransition)
+         * - totalPullRequests: Displayed on cockpit HUD
+         * - sampleStarredRepos: Repo names shown on star hits
+         * - timeUntilTabletHides: When to start zoom-out
+         * - timeUntilTabletHasEntered: When tablet is fully visible
+         */}
+        {frame < timeUntilTabletIsEntered || frame > timeUntilTabletHides ? (
+          <StarsGiven
+            starsGiven={starsGiven}
+            showCockpit={showCockpit}
+            style={style}
+            totalPullRequests={totalPullRequests}
+            sampleStarredRepos={sampleStarredRepos}
+            timeUntilTabletHides={timeUntilTabletHides}
+            timeUntilTabletHasEntered={timeUntilTabletIsEntered}
+          />
+        ) : null}
+
+        {/* ═══════════════════════════════════════════════════════════════════
           LAYER 3: TABLET SCENE (Sequence - Time-based)
           ════════════════════════════════════════════════════════════════ */}
 
-      {/**
-       * Tablet scene with productivity data visualization.
-       *
-       * TIMING:
-       * - Starts (from): starFlyDuration (when stars finish)
-       * - Duration: TABLET_SCENE_LENGTH + TABLET_SCENE_HIDE_ANIMATION
-       * - Total: 150 + 45 = 195 frames (6.5 seconds at 30fps)
-       *
-       * ANIMATION SEQUENCE:
-       * 1. Tablet slides up from bottom (ENTER_ANIMATION_DELAY)
-       * 2. Fully enters view (ENTER_ANIMATION)
-       * 3. Displays for TABLET_SCENE_LENGTH frames
-       * 4. Slides back down (HIDE_ANIMATION)
-       *
-       * Props passed to Tablet:
-       * - weekday: Most productive day (for wheel display)
-       * - enterProgress: 0→1→0 transition value (from zoomTransition)
-       * - graphData: 24-hour productivity data for bar chart
-       * - hour: Most productive hour (for wheel display)
-       */}
-      <Sequence
-        from={starFlyDuration}
-        durationInFrames={TABLET_SCENE_LENGTH + TABLET_SCENE_HIDE_ANIMATION}
-      >
-        <Tablet
-          weekday={topWeekday}
-          enterProgress={zoomTransition}
-          graphData={graphData}
-          hour={topHour}
-        />
-      </Sequence>
+        {/**
+         * Tablet scene with productivity data visualization.
+         *
+         * TIMING:
+         * - Starts (from): starFlyDuration (when stars finish)
+         * - Duration: TABLET_SCENE_LENGTH + TABLET_SCENE_HIDE_ANIMATION
+         * - Total: 150 + 45 = 195 frames (6.5 seconds at 30fps)
+         *
+         * ANIMATION SEQUENCE:
+         * 1. Tablet slides up from bottom (ENTER_ANIMATION_DELAY)
+         * 2. Fully enters view (ENTER_ANIMATION)
+         * 3. Displays for TABLET_SCENE_LENGTH frames
+         * 4. Slides back down (HIDE_ANIMATION)
+         *
+         * Props passed to Tablet:
+         * - weekday: Most productive day (for wheel display)
+         * - enterProgress: 0→1→0 transition value (from zoomTransition)
+         * - graphData: 24-hour productivity data for bar chart
+         * - hour: Most productive hour (for wheel display)
+         */}
+        <Sequence
+          from={starFlyDuration}
+          durationInFrames={TABLET_SCENE_LENGTH + TABLET_SCENE_HIDE_ANIMATION}
+        >
+          <Tablet
+            weekday={topWeekday}
+            enterProgress={zoomTransition}
+            graphData={graphData}
+            hour={topHour}
+            rocket={rocket}
+          />
+        </Sequence>
+      </FixedStage>
     </AbsoluteFill>
   );
 };
@@ -9,8 +9,10 @@ import {
 } from "remotion";
 import { Cockpit } from "./Cockpit";
 import type { RepoText } from "./HeadsUpDisplay";
-import { TABLET_SCENE_HIDE_ANIMATION } from "./Tablet";
-import { getTransitionToPullRequest } from "./transition-to-pull-request";
+import {
+  getTransitionToPullRequest,
+  getTransitionToPullRequestStart,
+} from "./transition-to-pull-request";
 
 export const AnimatedCockpit: React.FC<{
   readonly xShake: number;
@@ -43,7 +45,7 @@ export const AnimatedCockpit: React.FC<{
     delay: -6,
   });
 
-  const start = timeUntilTabletHides + TABLET_SCENE_HIDE_ANIMATION - 20;
+  const start = getTransitionToPullRequestStart({ timeUntilTabletHides });
   const transitionToPullRequest = getTransitionToPullRequest({
     start,
     frame,
@@ -1,5 +1,7 @@
 import React from "react";
 import { AbsoluteFill } from "remotion";
+import type { VideoLayout } from "../../../types/constants";
+import { useVideoLayout } from "../../layout/use-video-layout";
 
 export type RepoText = {
   text: string;
@@ -7,9 +9,23 @@ export type RepoText = {
   opacity: number;
 };
 
+// Wider videos fit longer repository names
+const HUD_WIDTH: Record<VideoLayout, number> = {
+  square: 500,
+  vertical: 700,
+  landscape: 900,
+};
+const HUD_TEXT_PADDING = 100;
+
 export const HeadsUpDisplay: React.FC<{
   readonly textToDisplay: RepoText | null;
 }> = ({ textToDisplay }) => {
+  const { layout, visibleArea } = useVideoLayout();
+  const width = HUD_WIDTH[layout];
+  const textWidth = width - HUD_TEXT_PADDING;
+  // Font size steps of the square HUD, for as many more characters as fit
+  const charactersScale = textWidth / (HUD_WIDTH.square - HUD_TEXT_PADDING);
+
   return (
     <AbsoluteFill
       style={{
@@ -19,9 +35,10 @@ export const HeadsUpDisplay: React.FC<{
     >
       <div
         style={{
-          width: 500,
+          width,
           height: 100,
-          marginTop: -500,
+          // In vertical videos, moves up by half of the sky above the stage
+          marginTop: -500 + Math.min(0, visibleArea.top),
           backgroundColor: "rgba(0, 0, 0, 0.2)",
           borderBottom: "2px solid rgba(255, 255, 255, 0.2)",
           display: "flex",
@@ -30,9 +47,9 @@ export const HeadsUpDisplay: React.FC<{
           color: "white",
           lineHeight: "40px",
           fontSize: textToDisplay
-            ? textToDisplay.text.length > 25
+            ? textToDisplay.text.length > 25 * charactersScale
               ? 22
-              : textToDisplay.text.length > 15
+              : textToDisplay.text.length > 15 * charactersScale
                 ? 30
                 : 40
             : 40,
@@ -50,7 +67,7 @@ export const HeadsUpDisplay: React.FC<{
               opacity: textToDisplay ? textToDisplay.opacity : 1,
               fontFamily: "Seven Segment",
               fontWeight: "bold",
-              maxWidth: 400,
+              maxWidth: textWidth,
               whiteSpace: "nowrap",
               textOverflow: "ellipsis",
               overflow: "hidden",
@@ -65,7 +82,7 @@ export const HeadsUpDisplay: React.FC<{
               opacity: textToDisplay ? textToDisplay.opacity : 1,
               fontFamily: "Seven Segment",
               fontWeight: "bold",
-              maxWidth: 400,
+              maxWidth: textWidth,
               whiteSpace: "nowrap",
               textOverflow: "ellipsis",
               overflow: "hidden",
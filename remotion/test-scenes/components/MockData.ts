@@ -1,50 +1,29 @@
-export type Weekday =
-  | "Monday"
-  | "Tuesday"
-  | "Wednesday"
-  | "Thursday"
-  | "Friday"
-  | "Saturday"
-  | "Sunday";
-
-export type Hour =
-  | "0"
-  | "1"
-  | "2"
-  | "3"
-  | "4"
-  | "5"
-  | "6"
-  | "7"
-  | "8"
-  | "9"
-  | "10"
-  | "11"
-  | "12"
-  | "13"
-  | "14"
-  | "15"
-  | "16"
-  | "17"
-  | "18"
-  | "19"
-  | "20"
-  | "21"
-  | "22"
-  | "23";
-
-export type ProductivityPerHour = {
-  time: number;
-  productivity: number;
-};
+import { random } from "remotion/no-react";
+import type { z } from "zod";
+import type {
+  CompositionParameters,
+  Hour,
+  OgImageParameters,
+  ProductivityPerHour,
+  ProfileStats,
+  Rocket,
+  Weekday,
+  topLanguagesSchema,
+} from "../../../src/config";
+import { DEFAULT_CALL_TO_ACTION, computePlanet } from "../../../src/config";
+import {
+  getLongestStreak,
+  getTotalContributions,
+} from "../../../src/stats/contributions";
 
 export const MOCK_STARS_GIVEN = 150;
 export const MOCK_TOTAL_PULL_REQUESTS = 42;
-export const MOCK_TOP_WEEKDAY = "Wednesday";
-export const MOCK_TOP_HOUR = "14";
+export const MOCK_TOP_WEEKDAY: Weekday = "2";
+export const MOCK_TOP_HOUR: Hour = "14";
 export const MOCK_LOGIN = "octocat";
+export const MOCK_ROCKET: Rocket = "blue";
 
-export const MOCK_GRAPH_DATA = [
+export const MOCK_GRAPH_DATA: ProductivityPerHour[] = [
   { time: 0, productivity: 10 },
   { time: 1, productivity: 5 },
   { time: 2, productivity: 2 },
@@ -78,3 +57,107 @@ export const MOCK_SAMPLE_STARRED_REPOS = [
   { name: "typescript", author: "microsoft" },
   { name: "vscode", author: "microsoft" },
 ];
+
+export const MOCK_TOP_LANGUAGES: z.infer<typeof topLanguagesSchema> = {
+  language1: { type: "designed", name: "TypeScript", percent: 48.9 },
+  language2: { type: "designed", name: "Go", percent: 21.4 },
+  language3: {
+    type: "other",
+    name: "Elixir",
+    color: "#6e4a7e",
+    percent: 15.2,
+  },
+};
+
+// Not a leap year, matches the 365 days of `MOCK_CONTRIBUTION_DATA`
+export const MOCK_YEAR = 2025;
+
+// One count per day of the year, deterministic so renders are reproducible
+export const MOCK_CONTRIBUTION_DATA: number[] = new Array(365)
+  .fill(0)
+  .map((_, i) => {
+    return random(`contribution-day-${i}`) > 0.35
+      ? Math.ceil(random(`contribution-count-${i}`) * 12)
+      : 0;
+  });
+
+/**
+ * A complete `compositionSchema` object, used as Studio default props for
+ * compositions that take every field (e.g. the Unwrapped master video).
+ */
+export const MOCK_COMPOSITION_PARAMETERS: CompositionParameters = {
+  login: MOCK_LOGIN,
+  corner: "top-right",
+  showHelperLine: false,
+  planet: computePlanet({
+    totalContributions: getTotalContributions(MOCK_CONTRIBUTION_DATA),
+  }),
+  starsGiven: MOCK_STARS_GIVEN,
+  issuesOpened: 12,
+  issuesClosed: 34,
+  totalPullRequests: MOCK_TOTAL_PULL_REQUESTS,
+  topWeekday: MOCK_TOP_WEEKDAY,
+  topHour: MOCK_TOP_HOUR,
+  graphData: MOCK_GRAPH_DATA,
+  openingSceneStartAngle: "left",
+  rocket: MOCK_ROCKET,
+  topLanguages: MOCK_TOP_LANGUAGES,
+  year: MOCK_YEAR,
+  contributionData: MOCK_CONTRIBUTION_DATA,
+  totalContributions: getTotalContributions(MOCK_CONTRIBUTION_DATA),
+  longestStreak: getLongestStreak(MOCK_CONTRIBUTION_DATA),
+  sampleStarredRepos: MOCK_SAMPLE_STARRED_REPOS,
+  callToAction: DEFAULT_CALL_TO_ACTION,
+};
+
+// Monday to Sunday, busiest on MOCK_TOP_WEEKDAY
+export const MOCK_ALL_WEEKDAYS = [48, 61, 83, 57, 44, 12, 9];
+
+/**
+ * The stats behind `MOCK_COMPOSITION_PARAMETERS` for any username, so
+ * previews go through `computeCompositionParameters()` like real users.
+ */
+export const getMockProfileStats = (username: string): ProfileStats => {
+  return {
+    username,
+    lowercasedUsername: username.toLowerCase(),
+    year: MOCK_YEAR,
+    totalPullRequests: MOCK_TOTAL_PULL_REQUESTS,
+    openIssues: MOCK_COMPOSITION_PARAMETERS.issuesOpened,
+    closedIssues: MOCK_COMPOSITION_PARAMETERS.issuesClosed,
+    fetchedAt: 0,
+    loggedInWithGitHub: false,
+    totalStars: MOCK_STARS_GIVEN,
+    totalStarsTruncated: false,
+    sampleStarredRepos: MOCK_SAMPLE_STARRED_REPOS,
+    longestStreak: getLongestStreak(MOCK_CONTRIBUTION_DATA),
+    totalContributions: getTotalContributions(MOCK_CONTRIBUTION_DATA),
+    topLanguages: [
+      { languageName: "TypeScript", color: "#3178c6", percent: 48.9 },
+      { languageName: "Go", color: "#00add8", percent: 21.4 },
+      { languageName: "Elixir", color: "#6e4a7e", percent: 15.2 },
+    ],
+    bestHours: Object.fromEntries(
+      MOCK_GRAPH_DATA.map(({ time, productivity }) => [time, productivity]),
+    ),
+    topWeekday: MOCK_TOP_WEEKDAY,
+    topHour: MOCK_TOP_HOUR,
+    graphData: MOCK_GRAPH_DATA,
+    contributionData: MOCK_CONTRIBUTION_DATA,
+    allWeekdays: MOCK_ALL_WEEKDAYS,
+  };
+};
+
+export const MOCK_OG_IMAGE_PARAMETERS: OgImageParameters = {
+  login: MOCK_LOGIN,
+  stars: MOCK_STARS_GIVEN,
+  issues:
+    MOCK_COMPOSITION_PARAMETERS.issuesOpened +
+    MOCK_COMPOSITION_PARAMETERS.issuesClosed,
+  pullRequests: MOCK_TOTAL_PULL_REQUESTS,
+  contributionData: MOCK_CONTRIBUTION_DATA,
+  weekdays: MOCK_ALL_WEEKDAYS,
+  topLanguage: MOCK_TOP_LANGUAGES.language1,
+  longestStreak: MOCK_COMPOSITION_PARAMETERS.longestStreak,
+  totalContributions: MOCK_COMPOSITION_PARAMETERS.totalContributions,
+};
@@ -6,7 +6,13 @@ import {
   useCurrentFrame,
   useVideoConfig,
 } from "remotion";
-import type { Hour, ProductivityPerHour, Weekday } from "./MockData";
+import type {
+  Hour,
+  ProductivityPerHour,
+  Rocket,
+  Weekday,
+} from "../../../src/config";
+import { useVideoLayout } from "../../layout/use-video-layout";
 import { PANE_BACKGROUND } from "./Pane";
 import { TopDay } from "./TopDay";
 
@@ -17,6 +23,7 @@ type Props = {
   graphData: Array<ProductivityPerHour>;
   weekday: Weekday;
   hour: Hour;
+  rocket: Rocket;
 };
 
 const Bar = (props: {
@@ -120,83 +127,136 @@ const ProductivityGraph = (props: {
 
 const DECELERATE_SOUND = staticFile("decelerate.mp3");
 
-export const Productivity: React.FC<Props> = ({ graphData, weekday, hour }) => {
+const weekdayValues = [
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+  "Sunday",
+];
+
+const hourValues = new Array(24).fill(true).map((_, i) => String(i));
+
+const renderHourLabel = (value: string) => {
+  if (value === "12") {
+    return "12 pm";
+  }
+
+  if (value === "0") {
+    return "12 am";
+  }
+
+  if (Number(value) > 12) {
+    return `${Number(value) - 12} pm`;
+  }
+
+  return `${value} am`;
+};
+
+/**
+ * The two wheels and the graph, arranged for the layout of the video:
+ * - square: wheels stacked at the top, graph below
+ * - vertical: wheels stacked, taller graph, centered in the frame
+ * - landscape: wheels side by side at the top, graph below
+ */
+export const Productivity: React.FC<Props> = ({
+  graphData,
+  weekday,
+  hour,
+  rocket,
+}) => {
+  const { layout } = useVideoLayout();
+
+  const topWeekday = (
+    <TopDay
+      values={weekdayValues}
+      label="Most productive day"
+      value={weekday}
+      radius={130}
+      renderLabel={(value) => value}
+      delay={60}
+      soundDelay={95}
+      rocket={rocket}
+    />
+  );
+  const topHour = (
+    <TopDay
+      values={hourValues}
+      label="Most productive time"
+      value={hour}
+      radius={300}
+      delay={70}
+      renderLabel={renderHourLabel}
+      soundDelay={120}
+      rocket={rocket}
+    />
+  );
+  const sound = isMobileDevice() ? null : (
+    <Audio src={DECELERATE_SOUND} volume={0.8} />
+  );
+
+  if (layout === "vertical") {
+    return (
+      <AbsoluteFill
+        style={{
+          display: "flex",
+          justifyContent: "center",
+          gap: 60,
+        }}
+      >
+        {sound}
+        {topWeekday}
+        {topHour}
+        <ProductivityGraph
+          productivityPerHour={graphData}
+          style={{ height: 760, marginTop: 40 }}
+        />
+      </AbsoluteFill>
+    );
+  }
+
+  if (layout === "landscape") {
+    return (
+      <AbsoluteFill
+        style={{
+          display: "flex",
+        }}
+      >
+        {sound}
+        <div style={{ display: "flex", flexDirection: "row", gap: 40 }}>
+          <div style={{ flex: 1 }}>{topWeekday}</div>
+          <div style={{ flex: 1 }}>{topHour}</div>
+        </div>
+        <div
+          style={{
+            display: "flex",
+            flex: 1,
+            alignItems: "center",
+            justifyContent: "center",
+          }}
+        >
+          <ProductivityGraph
+            productivityPerHour={graphData}
+            style={{ height: 600 }}
+          />
+        </div>
+      </AbsoluteFill>
+    );
+  }
+
   return (
     <AbsoluteFill
       style={{
         display: "flex",
       }}
     >
-      {isMobileDevice() ? null : <Audio src={DECELERATE_SOUND} volume={0.8} />}
-      <TopDay
-        values={[
-          "Monday",
-          "Tuesday",
-          "Wednesday",
-          "Thursday",
-          "Wednesday",
-          "Thursday",
-          "Friday",
-          "Saturday",
-          "Sunday",
-        ]}
-        label="Most productive day"
-        value={weekday}
-        radius={130}
-        renderLabel={(value) => value}
-        delay={60}
-        soundDelay={95}
-      />
+      {sound}
+      {topWeekday}
       <br />
       <br />
-      <TopDay
-        values={[
-          "0",
-          "1",
-          "2",
-          "3",
-          "4",
-          "5",
-          "6",
-          "7",
-          "8",
-          "9",
-          "10",
-          "11",
-          "12",
-          "13",
-          "14",
-          "15",
-          "16",
-          "17",
-          "18",
-          "19",
-          "20",
-          "21",
-          "22",
-          "23",
-        ]}
-        label="Most productive time"
-        value={hour}
-        radius={300}
-        delay={70}
-        renderLabel={(value) => {
-          if (value === "12") {
-            return "12 pm";
-          }
-
-          if (value === "0") {
-            return "12 am";
-          }
-
-          if (Number(value) > 12) {
-            return `${Number(value) - 12} pm`;
-          }
-
-          return `${value} am`;
-        }}
-        soundDelay={120}
-      />
+      {topHour}
       <br />
       <br />
       <br />
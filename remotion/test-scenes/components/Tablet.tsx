@@ -7,6 +7,7 @@ import {
   useVideoConfig,
 } from "remotion";
 import { z } from "zod";
+import { useVideoLayout } from "../../layout/use-video-layout";
 import { Productivity } from "./Productivity";
 import { TabletSVG } from "./TabletSVG";
 
@@ -24,9 +25,11 @@ export const TABLET_SCENE_ENTER_ANIMATION_DELAY = 30;
 
 export const Tablet: React.FC<
   ComponentProps<typeof Productivity> & z.infer<typeof tableSchema>
-> = ({ graphData, enterProgress, weekday, hour }) => {
+> = ({ graphData, enterProgress, weekday, hour, rocket }) => {
   const frame = useCurrentFrame();
-  const { fps } = useVideoConfig();
+  const { fps, height } = useVideoConfig();
+  // The screen grows to the whole video frame, not only the stage
+  const { visibleArea } = useVideoLayout();
 
   const toFullscreenFull =
     spring({
@@ -94,13 +97,16 @@ export const Tablet: React.FC<
 
   const masterScale = interpolate(toFullscreen, [0, 1], [0.8, 1]);
 
-  const left = interpolate(toFullscreen, [0, 1], [350, 0]);
-  const top = interpolate(toFullscreen, [0, 1], [480, 0]);
+  const left = interpolate(toFullscreen, [0, 1], [350, visibleArea.left]);
+  const top = interpolate(toFullscreen, [0, 1], [480, visibleArea.top]);
+
+  // Enters from below the bottom edge of the video
+  const enterDistance = 800 + visibleArea.top + visibleArea.height - height;
 
   return (
     <AbsoluteFill
       style={{
-        transform: `translateY(${800 - enterProgress * 800}px)`,
+        transform: `translateY(${(1 - enterProgress) * enterDistance}px)`,
       }}
     >
       <AbsoluteFill>
@@ -137,8 +143,15 @@ export const Tablet: React.FC<
             transform: `perspective(1200px) rotateY(${rotateYChart}deg) rotateX(${rotateXChart}deg) skewX(${skewXChart}deg) skewY(${skewYChart}deg) scale(${scaleChart})`,
           }}
         >
-          <AbsoluteFill style={{ width: 1080, height: 1080 }}>
-            <Productivity hour={hour} weekday={weekday} graphData={graphData} />
+          <AbsoluteFill
+            style={{ width: visibleArea.width, height: visibleArea.height }}
+          >
+            <Productivity
+              hour={hour}
+              weekday={weekday}
+              graphData={graphData}
+              rocket={rocket}
+            />
           </AbsoluteFill>
         </div>
       </AbsoluteFill>
@@ -1,9 +1,10 @@
 import React from "react";
 import { AbsoluteFill } from "remotion";
 import { z } from "zod";
+import type { Rocket } from "../../../src/config";
+import { PaneEffect } from "../../PaneEffect";
 import { Gradient } from "./NativeGradient";
 import { PANE_BACKGROUND, PANE_BORDER, PANE_TEXT_COLOR } from "./Pane";
-import { PaneEffect } from "./PaneEffect";
 import { Wheel } from "./Wheel";
 
 const labelStyle: React.CSSProperties = {
@@ -27,8 +28,18 @@ export const TopDay: React.FC<
     readonly renderLabel: (value: string) => React.ReactNode;
     readonly delay: number;
     readonly soundDelay: number;
+    readonly rocket: Rocket;
   }
-> = ({ value, label, values, radius, renderLabel, delay, soundDelay }) => {
+> = ({
+  value,
+  label,
+  values,
+  radius,
+  renderLabel,
+  delay,
+  soundDelay,
+  rocket,
+}) => {
   const maskImage = `linear-gradient(to bottom, transparent 0%, rgba(0, 0, 0, 1) 30%, rgba(0, 0, 0, 1) 70%, transparent 100%)`;
 
   return (
@@ -38,6 +49,7 @@ export const TopDay: React.FC<
       pinkHighlightOpacity={0.2}
       whiteHighlightOpacity={1}
       style={{}}
+      rocket={rocket}
     >
       <div
         style={{
@@ -6,6 +6,10 @@ export const availableGradients = {
   brown: "radial-gradient(#3E3429, rgba(0, 0, 0, 0) 70%)",
   white: "radial-gradient(#FFFFFF, rgba(0, 0, 0, 0) 70%)",
   blueRadial: "linear-gradient(180deg, #060842 0%, #474280 50%, #396A91 100%)",
+  orangeRadial:
+    "linear-gradient(180deg, #1F0809 0%, #6E3340 50%, #B0603F 100%)",
+  yellowRadial:
+    "linear-gradient(180deg, #1A1206 0%, #5E4A2E 50%, #A88A3A 100%)",
   greenAlient: "linear-gradient(180deg, #051F0F 0%, #1A4F2E 50%, #39B77F 100%)",
   greenRadial:
     "radial-gradient(100% 100% at 47.08% 0%, rgba(176, 224, 186, 0.2) 0%, rgba(0, 0, 0, 0) 100%)",
@@ -1,6 +1,19 @@
 import { interpolate, spring } from "remotion";
+import { TABLET_SCENE_HIDE_ANIMATION } from "./Tablet";
 
-const TRANSITION_TO_PULL_REQUESTS = 70;
+export const TRANSITION_TO_PULL_REQUESTS = 70;
+
+/**
+ * Frame at which the cockpit starts zooming towards the camera, shortly
+ * before the tablet has fully hidden.
+ */
+export const getTransitionToPullRequestStart = ({
+  timeUntilTabletHides,
+}: {
+  timeUntilTabletHides: number;
+}) => {
+  return timeUntilTabletHides + TABLET_SCENE_HIDE_ANIMATION - 20;
+};
 
 export const getTransitionToPullRequest = ({
   start,
@@ -0,0 +1,74 @@
+import { describe, expect, test } from "vitest";
+import { getThemeMusicSegments } from "./theme-music";
+
+const FPS = 30;
+
+const getSegments = (seconds: number) => {
+  return getThemeMusicSegments({
+    music: "blue_theme_music",
+    durationInFrames: seconds * FPS,
+    fps: FPS,
+  });
+};
+
+describe("getThemeMusicSegments()", () => {
+  test("plays a cut of the exact length in full", () => {
+    expect(getSegments(40)).toEqual([
+      {
+        src: expect.stringContaining("blue_theme_music_40.mp3"),
+        from: 0,
+        durationInFrames: 40 * FPS,
+        startFrom: 0,
+        fadeInFrames: 0,
+        fadeOutFrames: 0,
+      },
+    ]);
+  });
+
+  test("trims the start of the shortest cut that is long enough", () => {
+    const [segment, ...rest] = getSegments(10);
+
+    expect(rest).toEqual([]);
+    expect(segment.src).toContain("blue_theme_music_24.mp3");
+    expect(segment.startFrom).toBe(14 * FPS);
+    expect(segment.durationInFrames).toBe(10 * FPS);
+    expect(segment.fadeInFrames).toBe(2 * FPS);
+  });
+
+  test("picks the next cut for lengths between two cuts", () => {
+    const [segment] = getSegments(25);
+
+    expect(segment.src).toContain("blue_theme_music_26.mp3");
+    expect(segment.startFrom).toBe(1 * FPS);
+  });
+
+  test("ends with the longest cut and crossfades into it for long videos", () => {
+    const segments = getSegments(80);
+    const last = segments[segments.length - 1];
+
+    expect(segments.length).toBe(2);
+    expect(last.src).toContain("blue_theme_music_56.mp3");
+    expect(last.from + last.durationInFrames).toBe(80 * FPS);
+    expect(last.fadeOutFrames).toBe(0);
+
+    // The first segment fades out while the last one fades in
+    const [first] = segments;
+    expect(first.from).toBe(0);
+    expect(first.from + first.durationInFrames - last.from).toBe(2 * FPS);
+    expect(first.fadeOutFrames).toBe(2 * FPS);
+    expect(last.fadeInFrames).toBe(2 * FPS);
+  });
+
+  test("covers every frame of very long videos", () => {
+    const segments = getSegments(200);
+
+    expect(segments[0].from).toBe(0);
+    expect(segments[segments.length - 1].fadeOutFrames).toBe(0);
+    for (let i = 1; i < segments.length; i++) {
+      const previous = segments[i - 1];
+      expect(previous.from + previous.durationInFrames).toBeGreaterThan(
+        segments[i].from,
+      );
+    }
+  });
+});
@@ -0,0 +1,113 @@
+import { staticFile } from "remotion";
+import type { ThemeMusic } from "./rocket-themes";
+
+/**
+ * THEME MUSIC
+ *
+ * Every theme track ships pre-cut to fixed lengths:
+ * public/<music>/<music>_<seconds>.mp3 with <seconds> from 24 to 56.
+ *
+ * Each cut has its own ending, so instead of looping one file we pick the cut
+ * that fits the video and align its ending with the last frame:
+ * - Shorter than the longest cut: the shortest cut that is long enough,
+ *   trimmed at the start.
+ * - Longer: the longest cut plays in full at the end, and the time before it
+ *   is covered by earlier cuts that crossfade into it.
+ */
+
+export const THEME_MUSIC_VARIANTS_IN_SECONDS = [
+  24, 26, 28, 30, 32, 34, 36, 38, 40, 42, 44, 46, 48, 50, 52, 54, 56,
+] as const;
+
+const THEME_MUSIC_CROSSFADE_IN_SECONDS = 2;
+
+export type ThemeMusicSegment = {
+  src: string;
+  /**
+   * Frame of the video at which the segment starts
+   */
+  from: number;
+  durationInFrames: number;
+  /**
+   * Frames trimmed from the start of the track
+   */
+  startFrom: number;
+  fadeInFrames: number;
+  fadeOutFrames: number;
+};
+
+export const getThemeMusicSource = (music: ThemeMusic, seconds: number) => {
+  return staticFile(`${music}/${music}_${seconds}.mp3`);
+};
+
+export const getThemeMusicSegments = ({
+  music,
+  durationInFrames,
+  fps,
+}: {
+  music: ThemeMusic;
+  durationInFrames: number;
+  fps: number;
+}): ThemeMusicSegment[] => {
+  const variants = THEME_MUSIC_VARIANTS_IN_SECONDS.map((seconds) => {
+    return {
+      src: getThemeMusicSource(music, seconds),
+      durationInFrames: Math.round(seconds * fps),
+    };
+  });
+  const longest = variants[variants.length - 1];
+  const crossfade = Math.round(THEME_MUSIC_CROSSFADE_IN_SECONDS * fps);
+
+  const segments: ThemeMusicSegment[] = [];
+
+  // Built from the end of the video backwards: `end` is the frame at which
+  // the next segment to place has to stop
+  let end = durationInFrames;
+  let isLast = true;
+
+  while (end > 0) {
+    if (end > longest.durationInFrames) {
+      segments.unshift({
+        src: longest.src,
+        from: end - longest.durationInFrames,
+        durationInFrames: longest.durationInFrames,
+        startFrom: 0,
+        fadeInFrames: crossfade,
+        fadeOutFrames: isLast ? 0 : crossfade,
+      });
+      end = end - longest.durationInFrames + crossfade;
+      isLast = false;
+      continue;
+    }
+
+    // The shortest variant that covers what is left
+    const variant = variants.find((v) => v.durationInFrames >= end) ?? longest;
+
+    if (isLast) {
+      // The only segment: cut the start so that the track ends with the video
+      const startFrom = variant.durationInFrames - end;
+      segments.unshift({
+        src: variant.src,
+        from: 0,
+        durationInFrames: end,
+        startFrom,
+        fadeInFrames: startFrom > 0 ? Math.min(crossfade, end) : 0,
+        fadeOutFrames: 0,
+      });
+    } else {
+      // Plays from its start and fades out into the next segment
+      segments.unshift({
+        src: variant.src,
+        from: 0,
+        durationInFrames: end,
+        startFrom: 0,
+        fadeInFrames: 0,
+        fadeOutFrames: Math.min(crossfade, end),
+      });
+    }
+
+    break;
+  }
+
+  return segments;
+};
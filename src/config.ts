@@ -128,17 +128,49 @@ export const compositionSchema = z.object({
   graphData: z.array(productivityPerHourSchema),
   openingSceneStartAngle,
   rocket: rocketSchema,
+  /**
+   * Year of `contributionData`, whose first entry is January 1st
+   */
+  year: z.number(),
   contributionData: z.array(z.number()),
   totalContributions: z.number(),
   longestStreak: z.number(),
   sampleStarredRepos: z.array(starredRepoExample),
+  callToAction: z.string(),
 });
 
+// Shown on the end card unless a render overrides it
+export const DEFAULT_CALL_TO_ACTION = "#GitHubUnwrapped";
+
+// GitHub logins: alphanumeric and single hyphens, which also keeps them
+// safe to use in file names and URLs
+export const GITHUB_USERNAME_REGEX = /^[a-z\d](?:[a-z\d]|-(?=[a-z\d])){0,38}$/i;
+
 export const RenderRequest = z.object({
   username: z.string(),
   theme: rocketSchema,
+  // Same as `StatsRequest.refreshCache`, also renders the video again
+  refreshCache: z.boolean().optional().default(false),
 });
 
+export const renderStages = [
+  "bundling",
+  "rendering",
+  "encoding",
+  "uploading",
+] as const;
+export type RenderStage = (typeof renderStages)[number];
+
+/**
+ * The stages of the local render server, which serves its videos itself and
+ * never uploads them
+ */
+export const renderServerStages: readonly RenderStage[] = renderStages.filter(
+  (stage) => {
+    return stage !== "uploading";
+  },
+);
+
 export type RenderResponse =
   | {
       type: "video-available";
@@ -147,6 +179,8 @@ export type RenderResponse =
   | {
       type: "render-running";
       progress: number;
+      // Not known while the render is queued
+      stage?: RenderStage;
     }
   | {
       type: "render-error";
@@ -155,7 +189,7 @@ export type RenderResponse =
 
 export const ProgressRequest = z.object({
   username: z.string(),
-  theme: z.string(),
+  theme: rocketSchema,
 });
 
 export const StatsRequest = z.object({
@@ -163,6 +197,16 @@ export const StatsRequest = z.object({
   refreshCache: z.boolean().optional().default(false),
 });
 
+export type StatsResponse =
+  | {
+      type: "stats-available";
+      stats: ProfileStats;
+    }
+  | {
+      type: "stats-error";
+      error: string;
+    };
+
 export const generateRandomCorner = ({
   lowercasedUsername,
 }: {
@@ -179,11 +223,20 @@ export type ProfileStats = {
   totalPullRequests: number;
   username: string;
   lowercasedUsername: string;
+  /**
+   * Calendar year the stats cover
+   */
+  year: number;
   openIssues: number;
   closedIssues: number;
   fetchedAt: number;
   loggedInWithGitHub: boolean;
   totalStars: number;
+  /**
+   * `totalStars` is a lower bound: the user starred more repositories this
+   * year than the GitHub client pages through
+   */
+  totalStarsTruncated: boolean;
   sampleStarredRepos: {
     author: string;
     name: string;
@@ -205,24 +258,30 @@ export type ProfileStats = {
 
 export type CompositionParameters = z.infer<typeof compositionSchema>;
 
-const computePlanet = (userStats: ProfileStats): z.infer<typeof PlanetEnum> => {
-  if (userStats.totalContributions > 5000) {
-    return PlanetEnum.Enum.Gold;
-  }
-
-  if (userStats.totalContributions > 2400) {
-    return PlanetEnum.Enum.Silver;
-  }
-
-  if (userStats.totalContributions > 500) {
-    return PlanetEnum.Enum.Fire;
-  }
-
-  if (userStats.totalContributions > 25) {
-    return PlanetEnum.Enum.Leafy;
-  }
-
-  return PlanetEnum.Enum.Ice;
+/**
+ * A user reaches a planet with more than `minContributions` contributions.
+ * Ordered from the highest tier to the lowest.
+ */
+export const planetThresholds: Array<{
+  planet: Planet;
+  minContributions: number;
+}> = [
+  { planet: PlanetEnum.Enum.Gold, minContributions: 5000 },
+  { planet: PlanetEnum.Enum.Silver, minContributions: 2400 },
+  { planet: PlanetEnum.Enum.Fire, minContributions: 500 },
+  { planet: PlanetEnum.Enum.Leafy, minContributions: 25 },
+  { planet: PlanetEnum.Enum.Ice, minContributions: 0 },
+];
+
+export const computePlanet = (
+  userStats: Pick<ProfileStats, "totalContributions">,
+): z.infer<typeof PlanetEnum> => {
+  const threshold = planetThresholds.find(
+    ({ minContributions }) => userStats.totalContributions > minContributions,
+  );
+
+  // Users without any contributions don't pass the last threshold either
+  return threshold ? threshold.planet : PlanetEnum.Enum.Ice;
 };
 
 export const parseTopLanguage = (topLanguage: {
@@ -292,9 +351,11 @@ export const computeCompositionParameters = (
         ? "left"
         : "right",
     rocket: rocketPreference ? rocketPreference : defaultRocket,
+    year: userStats.year,
     contributionData: userStats.contributionData,
     sampleStarredRepos: userStats.sampleStarredRepos,
     longestStreak: userStats.longestStreak,
+    callToAction: DEFAULT_CALL_TO_ACTION,
   };
 };
 
@@ -309,3 +370,24 @@ export const ogImageSchema = z.object({
   longestStreak: z.number(),
   totalContributions: z.number(),
 });
+
+export type OgImageParameters = z.infer<typeof ogImageSchema>;
+
+export const computeOgImageParameters = (
+  userStats: ProfileStats,
+): OgImageParameters => {
+  return {
+    login: userStats.username,
+    stars: userStats.totalStars,
+    issues: userStats.openIssues + userStats.closedIssues,
+    pullRequests: userStats.totalPullRequests,
+    contributionData: userStats.contributionData,
+    weekdays: userStats.allWeekdays,
+    topLanguage:
+      userStats.topLanguages.length > 0
+        ? parseTopLanguage(userStats.topLanguages[0])
+        : null,
+    longestStreak: userStats.longestStreak,
+    totalContributions: userStats.totalContributions,
+  };
+};
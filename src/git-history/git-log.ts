@@ -0,0 +1,80 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+
+const execFileAsync = promisify(execFile);
+
+// Large monorepos easily exceed the 1MB default of execFile
+const MAX_BUFFER = 512 * 1024 * 1024;
+
+export type GitCommit = {
+  hash: string;
+  authorEmail: string;
+  /**
+   * Author date in the author's own timezone, so that "most productive hour"
+   * reflects the clock on the author's wall and not the machine running this.
+   */
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+};
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):/;
+
+export const parseGitLog = (output: string): GitCommit[] => {
+  return output
+    .split("\n")
+    .filter((line) => line.trim() !== "")
+    .map((line) => {
+      const [hash, authorEmail, authorDate] = line.split("\t");
+      const match = authorDate?.match(ISO_DATE);
+      if (!match) {
+        throw new Error(`Could not parse git log line: ${line}`);
+      }
+
+      return {
+        hash,
+        authorEmail,
+        year: Number(match[1]),
+        month: Number(match[2]),
+        day: Number(match[3]),
+        hour: Number(match[4]),
+      };
+    });
+};
+
+/**
+ * Reads all commits of `revision` whose author date falls into `year`.
+ *
+ * `--since`/`--until` filter on the committer date, which differs from the
+ * author date for rebased and cherry-picked commits. The committer date is
+ * never earlier than the author date, so only a lower bound is passed to git
+ * (a month early, to allow for clock skew and timezones) and there is no
+ * upper bound. The exact filtering happens on the author-local date
+ * afterwards.
+ */
+export const readGitLog = async ({
+  repoPath,
+  year,
+  revision,
+}: {
+  repoPath: string;
+  year: number;
+  revision: string;
+}): Promise<GitCommit[]> => {
+  const { stdout } = await execFileAsync(
+    "git",
+    [
+      "log",
+      revision,
+      // %aE respects .mailmap, so authors with several addresses are merged
+      "--format=%H%x09%aE%x09%aI",
+      `--since=${year - 1}-12-01T00:00:00Z`,
+    ],
+    { cwd: repoPath, maxBuffer: MAX_BUFFER },
+  ).catch((err: Error) => {
+    throw new Error(`Failed to read git log in ${repoPath}: ${err.message}`);
+  });
+
+  return parseGitLog(stdout).filter((commit) => commit.year === year);
+};
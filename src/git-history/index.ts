@@ -0,0 +1,100 @@
+import type { ProfileStats } from "../config";
+import {
+  getDayOfYear,
+  getDaysInYear,
+  getLongestStreak,
+  getTotalContributions,
+} from "../stats/contributions";
+import { computeProductivity } from "../stats/productivity";
+import type { GitCommit } from "./git-log";
+import { readGitLog } from "./git-log";
+
+export type GitHistoryRequest = {
+  repoPath: string;
+  authorEmail: string;
+  year: number;
+  /**
+   * Name shown in the video. Defaults to the local part of `authorEmail`.
+   */
+  username?: string;
+  /**
+   * Defaults to `HEAD`. Pass `--all` to include every branch.
+   */
+  revision?: string;
+};
+
+const toWeekday = ({ year, month, day }: GitCommit) => {
+  // getUTCDay() is 0 = Sunday, the scenes expect 0 = Monday
+  return (new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 6) % 7;
+};
+
+/**
+ * Turns the commits of a single author into the subset of `ProfileStats`
+ * that can be derived from version control alone.
+ */
+export const computeGitHistoryStats = ({
+  commits,
+  year,
+}: {
+  commits: GitCommit[];
+  year: number;
+}) => {
+  const contributionData = new Array<number>(getDaysInYear(year)).fill(0);
+  for (const commit of commits) {
+    contributionData[getDayOfYear(commit)]++;
+  }
+
+  const { graphData, bestHours, allWeekdays, topHour, topWeekday } =
+    computeProductivity(
+      commits.map((commit) => {
+        return { hour: commit.hour, weekday: toWeekday(commit) };
+      }),
+    );
+
+  return {
+    graphData,
+    topHour,
+    topWeekday,
+    allWeekdays,
+    bestHours,
+    contributionData,
+    longestStreak: getLongestStreak(contributionData),
+    totalContributions: getTotalContributions(contributionData),
+  };
+};
+
+/**
+ * Builds `ProfileStats` from a local git repository without any network
+ * access. Fields that only exist on GitHub (stars, issues, pull requests,
+ * languages) are left empty.
+ */
+export const getProfileStatsFromGitHistory = async ({
+  repoPath,
+  authorEmail,
+  year,
+  username,
+  revision = "HEAD",
+}: GitHistoryRequest): Promise<ProfileStats> => {
+  const lowercasedEmail = authorEmail.toLowerCase();
+  const commits = (await readGitLog({ repoPath, year, revision })).filter(
+    (commit) => commit.authorEmail.toLowerCase() === lowercasedEmail,
+  );
+
+  const name = username ?? authorEmail.split("@")[0];
+
+  return {
+    ...computeGitHistoryStats({ commits, year }),
+    username: name,
+    lowercasedUsername: name.toLowerCase(),
+    year,
+    totalPullRequests: 0,
+    openIssues: 0,
+    closedIssues: 0,
+    totalStars: 0,
+    totalStarsTruncated: false,
+    sampleStarredRepos: [],
+    topLanguages: [],
+    fetchedAt: Date.now(),
+    loggedInWithGitHub: false,
+  };
+};
@@ -0,0 +1,41 @@
+import { afterAll, beforeAll, describe, expect, test } from "vitest";
+import { GitHubNotFoundError, getProfileStatsFromGitHub } from "./index";
+import { startGitHubMockServer } from "./mock-server";
+
+describe("getProfileStatsFromGitHub() against the recorded fixtures", () => {
+  let server: Awaited<ReturnType<typeof startGitHubMockServer>>;
+
+  beforeAll(async () => {
+    server = await startGitHubMockServer();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  test("maps the stats of octocat", async () => {
+    const stats = await getProfileStatsFromGitHub({
+      username: "octocat",
+      year: 2024,
+      token: "mock",
+      endpoint: server.url,
+    });
+
+    expect(stats.lowercasedUsername).toBe("octocat");
+    expect(stats.year).toBe(2024);
+    expect(stats.openIssues).toBe(7);
+    expect(stats.closedIssues).toBe(23);
+    expect(stats.totalPullRequests).toBe(58);
+  });
+
+  test("throws GitHubNotFoundError for a user that doesn't exist", async () => {
+    await expect(
+      getProfileStatsFromGitHub({
+        username: "this-user-does-not-exist",
+        year: 2024,
+        token: "mock",
+        endpoint: server.url,
+      }),
+    ).rejects.toBeInstanceOf(GitHubNotFoundError);
+  });
+});
@@ -0,0 +1,174 @@
+export const GITHUB_GRAPHQL_ENDPOINT = "https://api.github.com/graphql";
+
+export type GitHubClientOptions = {
+  token: string;
+  endpoint?: string;
+  fetchImpl?: typeof fetch;
+  maxRetries?: number;
+  /**
+   * Longest we are willing to sleep for a rate limit to reset before giving
+   * up. The primary limit resets hourly, which is too long for a web request.
+   */
+  maxRateLimitWaitMs?: number;
+};
+
+export type PageInfo = {
+  hasNextPage: boolean;
+  endCursor: string | null;
+};
+
+type GraphQLResponse<T> = {
+  data?: T;
+  errors?: Array<{ type?: string; message: string }>;
+};
+
+/**
+ * What was queried (e.g. the user) does not exist. Thrown instead of a plain
+ * `Error` so that callers can answer with a 404.
+ */
+export class GitHubNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GitHubNotFoundError";
+  }
+}
+
+const sleep = (ms: number) => {
+  return new Promise<void>((resolve) => {
+    setTimeout(resolve, ms);
+  });
+};
+
+const getRateLimitWaitMs = (response: Response, attempt: number) => {
+  const retryAfter = response.headers.get("retry-after");
+  if (retryAfter) {
+    return Number(retryAfter) * 1000;
+  }
+
+  if (response.headers.get("x-ratelimit-remaining") === "0") {
+    const reset = Number(response.headers.get("x-ratelimit-reset"));
+    return Math.max(0, reset * 1000 - Date.now());
+  }
+
+  // Secondary rate limits don't always tell us how long to wait
+  return 2 ** attempt * 1000;
+};
+
+export const createGitHubClient = ({
+  token,
+  endpoint = GITHUB_GRAPHQL_ENDPOINT,
+  fetchImpl = fetch,
+  maxRetries = 3,
+  maxRateLimitWaitMs = 60 * 1000,
+}: GitHubClientOptions) => {
+  const query = async <T>({
+    operationName,
+    query: queryString,
+    variables,
+  }: {
+    operationName: string;
+    query: string;
+    variables: Record<string, unknown>;
+  }): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+      const response = await fetchImpl(endpoint, {
+        method: "POST",
+        headers: {
+          Authorization: `bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ operationName, query: queryString, variables }),
+      });
+
+      const json: GraphQLResponse<T> | null = response.headers
+        .get("content-type")
+        ?.includes("json")
+        ? await response.json()
+        : null;
+
+      const rateLimited =
+        response.status === 429 ||
+        (response.status === 403 &&
+          (response.headers.get("x-ratelimit-remaining") === "0" ||
+            response.headers.has("retry-after"))) ||
+        Boolean(json?.errors?.some((e) => e.type === "RATE_LIMITED"));
+
+      if (rateLimited) {
+        const waitMs = getRateLimitWaitMs(response, attempt);
+        if (attempt >= maxRetries || waitMs > maxRateLimitWaitMs) {
+          throw new Error(
+            `GitHub rate limit exceeded for ${operationName}, retry in ${Math.ceil(
+              waitMs / 1000,
+            )}s`,
+          );
+        }
+
+        await sleep(waitMs);
+        continue;
+      }
+
+      if (!response.ok) {
+        throw new Error(
+          `GitHub API responded with ${response.status} for ${operationName}`,
+        );
+      }
+
+      if (json?.errors && json.errors.length > 0) {
+        // e.g. "Could not resolve to a User with the login of ..."
+        if (json.errors.every((e) => e.type === "NOT_FOUND")) {
+          throw new GitHubNotFoundError(json.errors[0].message);
+        }
+
+        throw new Error(
+          `GitHub API error in ${operationName}: ${json.errors[0].message}`,
+        );
+      }
+
+      if (!json?.data) {
+        throw new Error(`GitHub API returned no data for ${operationName}`);
+      }
+
+      return json.data;
+    }
+  };
+
+  return { query };
+};
+
+export type GitHubClient = ReturnType<typeof createGitHubClient>;
+
+/**
+ * Follows `pageInfo.endCursor` until there are no more pages, `maxPages` is
+ * reached or `shouldContinue` returns false for the page just fetched.
+ */
+export const paginate = async <Item>({
+  fetchPage,
+  maxPages,
+  shouldContinue = () => true,
+}: {
+  fetchPage: (
+    cursor: string | null,
+  ) => Promise<{ items: Item[]; pageInfo: PageInfo }>;
+  maxPages: number;
+  shouldContinue?: (page: Item[]) => boolean;
+}): Promise<Item[]> => {
+  const items: Item[] = [];
+  let cursor: string | null = null;
+
+  for (let page = 0; page < maxPages; page++) {
+    const result = await fetchPage(cursor);
+    items.push(...result.items);
+
+    if (
+      !result.pageInfo.hasNextPage ||
+      !result.pageInfo.endCursor ||
+      !shouldContinue(result.items)
+    ) {
+      break;
+    }
+
+    cursor = result.pageInfo.endCursor;
+  }
+
+  return items;
+};
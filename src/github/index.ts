@@ -0,0 +1,276 @@
+import type { ProfileStats, Weekday } from "../config";
+import { getLongestStreak } from "../stats/contributions";
+import { computeProductivity, indexOfMax } from "../stats/productivity";
+import type { GitHubClient, GitHubClientOptions } from "./client";
+import { GitHubNotFoundError, createGitHubClient, paginate } from "./client";
+import type {
+  CommitHistoryResponse,
+  ProfileOverviewResponse,
+  RepositoryLanguagesResponse,
+  StarredRepositoriesResponse,
+} from "./queries";
+import {
+  COMMIT_HISTORY_QUERY,
+  PROFILE_OVERVIEW_QUERY,
+  REPOSITORY_LANGUAGES_QUERY,
+  STARRED_REPOSITORIES_QUERY,
+} from "./queries";
+
+const SAMPLE_STARRED_REPOS_COUNT = 30;
+const TOP_LANGUAGES_COUNT = 3;
+// Keeps a single profile well below the 5000 points/hour GraphQL budget
+const MAX_STARRED_PAGES = 20;
+const MAX_REPOSITORY_PAGES = 5;
+const MAX_COMMIT_PAGES_PER_REPOSITORY = 10;
+
+export type GitHubStatsRequest = Omit<GitHubClientOptions, "token"> & {
+  username: string;
+  token: string;
+  year: number;
+  loggedInWithGitHub?: boolean;
+};
+
+const getStarredReposOfYear = async ({
+  client,
+  login,
+  from,
+  to,
+}: {
+  client: GitHubClient;
+  login: string;
+  from: string;
+  to: string;
+}) => {
+  let hasMorePages = false;
+  const edges = await paginate({
+    maxPages: MAX_STARRED_PAGES,
+    fetchPage: async (cursor) => {
+      const data = await client.query<StarredRepositoriesResponse>({
+        operationName: "StarredRepositories",
+        query: STARRED_REPOSITORIES_QUERY,
+        variables: { login, cursor },
+      });
+      hasMorePages = data.user.starredRepositories.pageInfo.hasNextPage;
+      return {
+        items: data.user.starredRepositories.edges,
+        pageInfo: data.user.starredRepositories.pageInfo,
+      };
+    },
+    // Sorted newest first, so we can stop once we're past the year
+    shouldContinue: (page) => {
+      return page.every((edge) => edge.starredAt >= from);
+    },
+  });
+
+  const repos = edges
+    .filter((edge) => edge.starredAt >= from && edge.starredAt <= to)
+    .map((edge) => {
+      return { author: edge.node.owner.login, name: edge.node.name };
+    });
+
+  // Stopped by MAX_STARRED_PAGES while still inside the year: there are more
+  // stars of this year than we have fetched
+  const oldest = edges[edges.length - 1];
+  const truncated =
+    hasMorePages && oldest !== undefined && oldest.starredAt >= from;
+
+  return { repos, truncated };
+};
+
+const getTopLanguages = async ({
+  client,
+  login,
+}: {
+  client: GitHubClient;
+  login: string;
+}): Promise<ProfileStats["topLanguages"]> => {
+  const repositories = await paginate({
+    maxPages: MAX_REPOSITORY_PAGES,
+    fetchPage: async (cursor) => {
+      const data = await client.query<RepositoryLanguagesResponse>({
+        operationName: "RepositoryLanguages",
+        query: REPOSITORY_LANGUAGES_QUERY,
+        variables: { login, cursor },
+      });
+      return {
+        items: data.user.repositories.nodes,
+        pageInfo: data.user.repositories.pageInfo,
+      };
+    },
+  });
+
+  const sizes = new Map<string, { size: number; color: string | null }>();
+  for (const repository of repositories) {
+    for (const { size, node } of repository.languages.edges) {
+      const previous = sizes.get(node.name);
+      sizes.set(node.name, {
+        size: (previous?.size ?? 0) + size,
+        color: node.color,
+      });
+    }
+  }
+
+  const totalSize = [...sizes.values()].reduce((a, b) => a + b.size, 0);
+
+  return [...sizes.entries()]
+    .sort((a, b) => b[1].size - a[1].size)
+    .slice(0, TOP_LANGUAGES_COUNT)
+    .map(([languageName, { size, color }]) => {
+      return {
+        languageName,
+        color,
+        percent: (size / totalSize) * 100,
+      };
+    });
+};
+
+const getCommitDates = async ({
+  client,
+  authorId,
+  repositories,
+  from,
+  to,
+}: {
+  client: GitHubClient;
+  authorId: string;
+  repositories: Array<{ name: string; owner: string }>;
+  from: string;
+  to: string;
+}) => {
+  const dates: string[] = [];
+
+  // Sequentially on purpose: parallel requests trigger secondary rate limits
+  for (const repository of repositories) {
+    const commits = await paginate({
+      maxPages: MAX_COMMIT_PAGES_PER_REPOSITORY,
+      fetchPage: async (cursor) => {
+        const data = await client.query<CommitHistoryResponse>({
+          operationName: "CommitHistory",
+          query: COMMIT_HISTORY_QUERY,
+          variables: {
+            owner: repository.owner,
+            name: repository.name,
+            authorId,
+            since: from,
+            until: to,
+            cursor,
+          },
+        });
+        const history = data.repository?.defaultBranchRef?.target.history;
+        return {
+          items: history?.nodes ?? [],
+          pageInfo: history?.pageInfo ?? {
+            hasNextPage: false,
+            endCursor: null,
+          },
+        };
+      },
+    });
+    dates.push(...commits.map((commit) => commit.authoredDate));
+  }
+
+  return dates;
+};
+
+/**
+ * Fetches a user's year on GitHub and maps it into `ProfileStats`.
+ *
+ * GitHub only exposes commit times in UTC, so `topHour` and `graphData` are
+ * UTC-based. Weekdays come from the contribution calendar instead, which is
+ * already bucketed by GitHub.
+ */
+export const getProfileStatsFromGitHub = async ({
+  username,
+  year,
+  loggedInWithGitHub = false,
+  ...clientOptions
+}: GitHubStatsRequest): Promise<ProfileStats> => {
+  const client = createGitHubClient(clientOptions);
+  const from = `${year}-01-01T00:00:00Z`;
+  // contributionsCollection rejects ranges longer than one year
+  const to = `${year}-12-31T23:59:59Z`;
+  const createdRange = `created:${year}-01-01..${year}-12-31`;
+
+  const overview = await client.query<ProfileOverviewResponse>({
+    operationName: "ProfileOverview",
+    query: PROFILE_OVERVIEW_QUERY,
+    variables: {
+      login: username,
+      from,
+      to,
+      openIssuesQuery: `author:${username} is:issue is:open ${createdRange}`,
+      closedIssuesQuery: `author:${username} is:issue is:closed ${createdRange}`,
+      pullRequestsQuery: `author:${username} is:pr ${createdRange}`,
+    },
+  });
+
+  if (!overview.user) {
+    throw new GitHubNotFoundError(`GitHub user ${username} does not exist`);
+  }
+
+  const { user } = overview;
+  const { contributionCalendar, commitContributionsByRepository } =
+    user.contributionsCollection;
+
+  const contributionDays = contributionCalendar.weeks.flatMap(
+    (week) => week.contributionDays,
+  );
+  const contributionData = contributionDays.map((day) => day.contributionCount);
+
+  const allWeekdays = new Array<number>(7).fill(0);
+  for (const day of contributionDays) {
+    // GitHub counts from Sunday, the scenes from Monday
+    allWeekdays[(day.weekday + 6) % 7] += day.contributionCount;
+  }
+
+  const starredRepos = await getStarredReposOfYear({
+    client,
+    login: user.login,
+    from,
+    to,
+  });
+
+  const topLanguages = await getTopLanguages({ client, login: user.login });
+
+  const commitDates = await getCommitDates({
+    client,
+    authorId: user.id,
+    repositories: commitContributionsByRepository.map(({ repository }) => {
+      return { name: repository.name, owner: repository.owner.login };
+    }),
+    from,
+    to,
+  });
+
+  const { graphData, bestHours, topHour } = computeProductivity(
+    commitDates.map((date) => {
+      const d = new Date(date);
+      return { hour: d.getUTCHours(), weekday: (d.getUTCDay() + 6) % 7 };
+    }),
+  );
+
+  return {
+    username: user.login,
+    lowercasedUsername: user.login.toLowerCase(),
+    year,
+    totalPullRequests: overview.pullRequests.issueCount,
+    openIssues: overview.openIssues.issueCount,
+    closedIssues: overview.closedIssues.issueCount,
+    fetchedAt: Date.now(),
+    loggedInWithGitHub,
+    totalStars: starredRepos.repos.length,
+    totalStarsTruncated: starredRepos.truncated,
+    sampleStarredRepos: starredRepos.repos.slice(0, SAMPLE_STARRED_REPOS_COUNT),
+    longestStreak: getLongestStreak(contributionData),
+    totalContributions: contributionCalendar.totalContributions,
+    topLanguages,
+    bestHours,
+    topWeekday: String(indexOfMax(allWeekdays)) as Weekday,
+    topHour,
+    graphData,
+    contributionData,
+    allWeekdays,
+  };
+};
+
+export { GitHubNotFoundError } from "./client";
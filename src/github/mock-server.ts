@@ -0,0 +1,163 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { createServer } from "node:http";
+import path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+
+/**
+ * Recorded GitHub responses, so the stats client can be exercised without
+ * network access or a token.
+ *
+ * Record:  pass `createRecordingFetch()` as `fetchImpl` to the client and
+ *          run it once against the real API.
+ * Replay:  start the mock server and point the client's `endpoint` at it.
+ */
+
+export const DEFAULT_FIXTURES_DIR = fileURLToPath(
+  new URL("./fixtures/", import.meta.url),
+);
+
+type RecordedFixture = {
+  request: {
+    operationName: string;
+    variables: Record<string, unknown>;
+  };
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+};
+
+// Only headers the client reacts to are worth keeping
+const RECORDED_HEADERS = [
+  "content-type",
+  "retry-after",
+  "x-ratelimit-limit",
+  "x-ratelimit-remaining",
+  "x-ratelimit-reset",
+];
+
+export const getFixtureFileName = ({
+  operationName,
+  variables,
+}: RecordedFixture["request"]) => {
+  const sortedVariables = Object.keys(variables)
+    .sort()
+    .map((key) => [key, variables[key] ?? null]);
+  const hash = createHash("sha1")
+    .update(JSON.stringify(sortedVariables))
+    .digest("hex")
+    .slice(0, 12);
+
+  return `${operationName}-${hash}.json`;
+};
+
+export const createRecordingFetch = ({
+  fixturesDir = DEFAULT_FIXTURES_DIR,
+  fetchImpl = fetch,
+}: {
+  fixturesDir?: string;
+  fetchImpl?: typeof fetch;
+} = {}): typeof fetch => {
+  return async (input, init) => {
+    const response = await fetchImpl(input, init);
+    const request = JSON.parse(String(init?.body));
+    const body = await response.json();
+
+    const headers: Record<string, string> = {};
+    for (const name of RECORDED_HEADERS) {
+      const value = response.headers.get(name);
+      if (value !== null) {
+        headers[name] = value;
+      }
+    }
+
+    const fixture: RecordedFixture = {
+      request: {
+        operationName: request.operationName,
+        variables: request.variables,
+      },
+      status: response.status,
+      headers,
+      body,
+    };
+
+    await mkdir(fixturesDir, { recursive: true });
+    await writeFile(
+      path.join(fixturesDir, getFixtureFileName(fixture.request)),
+      JSON.stringify(fixture, null, 2) + "\n",
+    );
+
+    return new Response(JSON.stringify(body), {
+      status: response.status,
+      headers,
+    });
+  };
+};
+
+export const startGitHubMockServer = ({
+  port = 0,
+  fixturesDir = DEFAULT_FIXTURES_DIR,
+}: {
+  port?: number;
+  fixturesDir?: string;
+} = {}) => {
+  const server = createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+
+    let fileName: string;
+    try {
+      const { operationName, variables } = JSON.parse(
+        Buffer.concat(chunks).toString("utf-8"),
+      );
+      fileName = getFixtureFileName({ operationName, variables });
+    } catch {
+      res.writeHead(400, { "content-type": "application/json" });
+      res.end(JSON.stringify({ message: "Body must be a GraphQL request" }));
+      return;
+    }
+
+    let fixture: RecordedFixture;
+    try {
+      fixture = JSON.parse(
+        await readFile(path.join(fixturesDir, fileName), "utf-8"),
+      );
+    } catch {
+      res.writeHead(404, { "content-type": "application/json" });
+      res.end(
+        JSON.stringify({ message: `No fixture recorded as ${fileName}` }),
+      );
+      return;
+    }
+
+    res.writeHead(fixture.status, fixture.headers);
+    res.end(JSON.stringify(fixture.body));
+  });
+
+  return new Promise<{ url: string; close: () => Promise<void> }>((resolve) => {
+    server.listen(port, "127.0.0.1", () => {
+      const address = server.address();
+      const actualPort =
+        typeof address === "object" && address ? address.port : port;
+
+      resolve({
+        url: `http://127.0.0.1:${actualPort}/graphql`,
+        close: () => {
+          return new Promise<void>((done) => {
+            server.close(() => done());
+          });
+        },
+      });
+    });
+  });
+};
+
+if (import.meta.url === pathToFileURL(process.argv[1] ?? "").href) {
+  startGitHubMockServer({ port: Number(process.env.PORT ?? 4010) }).then(
+    ({ url }) => {
+      console.log(`GitHub mock server listening on ${url}`);
+    },
+  );
+}
@@ -0,0 +1,206 @@
+import type { PageInfo } from "./client";
+
+export const PROFILE_OVERVIEW_QUERY = /* GraphQL */ `
+  query ProfileOverview(
+    $login: String!
+    $from: DateTime!
+    $to: DateTime!
+    $openIssuesQuery: String!
+    $closedIssuesQuery: String!
+    $pullRequestsQuery: String!
+  ) {
+    user(login: $login) {
+      id
+      login
+      contributionsCollection(from: $from, to: $to) {
+        contributionCalendar {
+          totalContributions
+          weeks {
+            contributionDays {
+              contributionCount
+              date
+              weekday
+            }
+          }
+        }
+        commitContributionsByRepository(maxRepositories: 25) {
+          repository {
+            name
+            owner {
+              login
+            }
+          }
+        }
+      }
+    }
+    openIssues: search(query: $openIssuesQuery, type: ISSUE, first: 0) {
+      issueCount
+    }
+    closedIssues: search(query: $closedIssuesQuery, type: ISSUE, first: 0) {
+      issueCount
+    }
+    pullRequests: search(query: $pullRequestsQuery, type: ISSUE, first: 0) {
+      issueCount
+    }
+  }
+`;
+
+export type ProfileOverviewResponse = {
+  user: {
+    id: string;
+    login: string;
+    contributionsCollection: {
+      contributionCalendar: {
+        totalContributions: number;
+        weeks: Array<{
+          contributionDays: Array<{
+            contributionCount: number;
+            date: string;
+            // 0 = Sunday, as returned by GitHub
+            weekday: number;
+          }>;
+        }>;
+      };
+      commitContributionsByRepository: Array<{
+        repository: {
+          name: string;
+          owner: { login: string };
+        };
+      }>;
+    };
+  } | null;
+  openIssues: { issueCount: number };
+  closedIssues: { issueCount: number };
+  pullRequests: { issueCount: number };
+};
+
+export const STARRED_REPOSITORIES_QUERY = /* GraphQL */ `
+  query StarredRepositories($login: String!, $cursor: String) {
+    user(login: $login) {
+      starredRepositories(
+        first: 100
+        after: $cursor
+        orderBy: { field: STARRED_AT, direction: DESC }
+      ) {
+        edges {
+          starredAt
+          node {
+            name
+            owner {
+              login
+            }
+          }
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+      }
+    }
+  }
+`;
+
+export type StarredRepositoriesResponse = {
+  user: {
+    starredRepositories: {
+      edges: Array<{
+        starredAt: string;
+        node: { name: string; owner: { login: string } };
+      }>;
+      pageInfo: PageInfo;
+    };
+  };
+};
+
+export const REPOSITORY_LANGUAGES_QUERY = /* GraphQL */ `
+  query RepositoryLanguages($login: String!, $cursor: String) {
+    user(login: $login) {
+      repositories(
+        first: 100
+        after: $cursor
+        ownerAffiliations: OWNER
+        isFork: false
+      ) {
+        nodes {
+          languages(first: 10, orderBy: { field: SIZE, direction: DESC }) {
+            edges {
+              size
+              node {
+                name
+                color
+              }
+            }
+          }
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+      }
+    }
+  }
+`;
+
+export type RepositoryLanguagesResponse = {
+  user: {
+    repositories: {
+      nodes: Array<{
+        languages: {
+          edges: Array<{
+            size: number;
+            node: { name: string; color: string | null };
+          }>;
+        };
+      }>;
+      pageInfo: PageInfo;
+    };
+  };
+};
+
+export const COMMIT_HISTORY_QUERY = /* GraphQL */ `
+  query CommitHistory(
+    $owner: String!
+    $name: String!
+    $authorId: ID!
+    $since: GitTimestamp!
+    $until: GitTimestamp!
+    $cursor: String
+  ) {
+    repository(owner: $owner, name: $name) {
+      defaultBranchRef {
+        target {
+          ... on Commit {
+            history(
+              first: 100
+              after: $cursor
+              author: { id: $authorId }
+              since: $since
+              until: $until
+            ) {
+              nodes {
+                authoredDate
+              }
+              pageInfo {
+                hasNextPage
+                endCursor
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+export type CommitHistoryResponse = {
+  repository: {
+    defaultBranchRef: {
+      target: {
+        history?: {
+          nodes: Array<{ authoredDate: string }>;
+          pageInfo: PageInfo;
+        };
+      };
+    } | null;
+  } | null;
+};
@@ -0,0 +1,111 @@
+import { pathToFileURL } from "node:url";
+import { MOCK_COMPOSITION_PARAMETERS } from "../../remotion/test-scenes/components/MockData";
+import type { CompositionParameters } from "../config";
+import type { RenderBackend } from "./index";
+import { createLambdaRenderBackend } from "./lambda";
+import { createLocalRenderBackend } from "./local";
+
+const sleep = (ms: number) => {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+};
+
+/**
+ * The behavior the app relies on, checked against a real backend: deploys
+ * twice, renders one video and polls it until it is available. Throws on
+ * the first violation.
+ *
+ * Run it locally (no AWS needed) or against Lambda:
+ *
+ *   npm run render-backend:contract
+ *   RENDER_BACKEND=lambda npm run render-backend:contract
+ */
+export const checkRenderBackendContract = async (
+  backend: RenderBackend,
+  {
+    inputProps,
+    timeoutInMilliseconds = 10 * 60 * 1000,
+    pollIntervalInMilliseconds = 1000,
+  }: {
+    inputProps: CompositionParameters;
+    timeoutInMilliseconds?: number;
+    pollIntervalInMilliseconds?: number;
+  },
+) => {
+  const fail = (message: string): never => {
+    throw new Error(`${backend.name} render backend: ${message}`);
+  };
+
+  // Deploying again must not fail or redeploy from scratch
+  await backend.deploy();
+  await backend.deploy();
+
+  const unknown = await backend.getProgress("this-render-does-not-exist");
+  if (unknown.type !== "render-error") {
+    fail(`expected render-error for an unknown render, got ${unknown.type}`);
+  }
+
+  const { renderId } = await backend.startRender({ inputProps });
+  if (typeof renderId !== "string" || renderId.length === 0) {
+    fail("startRender() must return a non-empty render ID");
+  }
+
+  const startedAt = Date.now();
+  let lastProgress = 0;
+
+  while (Date.now() - startedAt < timeoutInMilliseconds) {
+    const response = await backend.getProgress(renderId);
+
+    if (response.type === "render-error") {
+      fail(`render failed: ${response.error}`);
+    }
+
+    if (response.type === "video-available") {
+      if (!response.url) {
+        fail("video-available must include a URL");
+      }
+
+      return response;
+    }
+
+    if (response.type === "render-running") {
+      const { progress } = response;
+      if (progress < 0 || progress > 1) {
+        fail(`progress must be between 0 and 1, got ${progress}`);
+      }
+
+      if (progress < lastProgress) {
+        fail(`progress went back from ${lastProgress} to ${progress}`);
+      }
+
+      lastProgress = progress;
+    }
+
+    await sleep(pollIntervalInMilliseconds);
+  }
+
+  return fail(`render did not finish within ${timeoutInMilliseconds}ms`);
+};
+
+if (import.meta.url === pathToFileURL(process.argv[1] ?? "").href) {
+  const name = process.env.RENDER_BACKEND ?? "local";
+  if (name !== "local" && name !== "lambda") {
+    throw new Error(`RENDER_BACKEND must be "local" or "lambda", got ${name}`);
+  }
+
+  const backend =
+    name === "lambda"
+      ? createLambdaRenderBackend()
+      : createLocalRenderBackend();
+
+  checkRenderBackendContract(backend, {
+    inputProps: MOCK_COMPOSITION_PARAMETERS,
+  }).then(
+    (response) => {
+      console.log(`${backend.name} render backend OK: ${response.url}`);
+    },
+    (err) => {
+      console.error(err);
+      process.exit(1);
+    },
+  );
+}
@@ -0,0 +1,25 @@
+import type { CompositionParameters, RenderResponse } from "../config";
+
+/**
+ * Where videos get rendered. The app only talks to this interface, so
+ * Lambda can be swapped for local Chrome (development, CI) and back.
+ *
+ * Every implementation must pass `checkRenderBackendContract()`.
+ */
+export type RenderBackend = {
+  name: string;
+  /**
+   * Makes sure everything needed to render exists. Safe to call repeatedly.
+   */
+  deploy: () => Promise<void>;
+  startRender: (options: {
+    inputProps: CompositionParameters;
+  }) => Promise<{ renderId: string }>;
+  /**
+   * `render-error` for render IDs this backend doesn't know.
+   */
+  getProgress: (renderId: string) => Promise<RenderResponse>;
+};
+
+export { createLambdaRenderBackend } from "./lambda";
+export { createLocalRenderBackend } from "./local";
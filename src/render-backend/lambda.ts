@@ -0,0 +1,147 @@
+import type { AwsRegion, RenderProgress } from "@remotion/lambda";
+import {
+  deployFunction,
+  deploySite,
+  getOrCreateBucket,
+  getRenderProgress,
+  renderMediaOnLambda,
+} from "@remotion/lambda";
+import { fileURLToPath } from "node:url";
+import type { RenderStage } from "../config";
+import { DISK, RAM, SITE_NAME, TIMEOUT } from "../config";
+import { getRenderJobId } from "../render-server/render-queue";
+import { UNWRAPPED_COMPOSITION_ID } from "../render-server/render-video";
+import type { RenderBackend } from "./index";
+
+const ENTRY_POINT = fileURLToPath(
+  new URL("../../remotion/index.ts", import.meta.url),
+);
+
+// Lambda reports when each phase finished, the first unfinished one is
+// the current stage
+const getStage = (progress: RenderProgress): RenderStage => {
+  if (progress.serveUrlOpened === null) {
+    return "bundling";
+  }
+
+  if (progress.timeToRenderFrames === null) {
+    return "rendering";
+  }
+
+  if (progress.timeToCombine === null) {
+    return "encoding";
+  }
+
+  return "uploading";
+};
+
+type Deployment = {
+  bucketName: string;
+  serveUrl: string;
+  functionName: string;
+};
+
+/**
+ * Renders on AWS Lambda. `deploy()` uploads the site as `SITE_NAME` and
+ * deploys a function with `RAM`, `DISK` and `TIMEOUT` from src/config.ts.
+ * Credentials are read from the environment by @remotion/lambda.
+ */
+export const createLambdaRenderBackend = ({
+  region = "us-east-1",
+}: {
+  region?: AwsRegion;
+} = {}): RenderBackend => {
+  let deployment: Promise<Deployment> | null = null;
+
+  const deploy = () => {
+    deployment ??= (async () => {
+      const { bucketName } = await getOrCreateBucket({ region });
+      const { serveUrl } = await deploySite({
+        entryPoint: ENTRY_POINT,
+        bucketName,
+        region,
+        siteName: SITE_NAME,
+      });
+      const { functionName } = await deployFunction({
+        region,
+        memorySizeInMb: RAM,
+        diskSizeInMb: DISK,
+        timeoutInSeconds: TIMEOUT,
+        createCloudWatchLogGroup: true,
+      });
+
+      return { bucketName, serveUrl, functionName };
+    })().catch((err) => {
+      // Allow retrying after a failed deployment
+      deployment = null;
+      throw err;
+    });
+
+    return deployment;
+  };
+
+  return {
+    name: "lambda",
+    deploy: async () => {
+      await deploy();
+    },
+    startRender: async ({ inputProps }) => {
+      const { serveUrl, functionName } = await deploy();
+      const videoName = getRenderJobId({
+        username: inputProps.login,
+        theme: inputProps.rocket,
+      });
+
+      const { renderId } = await renderMediaOnLambda({
+        region,
+        functionName,
+        serveUrl,
+        composition: UNWRAPPED_COMPOSITION_ID,
+        inputProps,
+        codec: "h264",
+        imageFormat: "jpeg",
+        outName: `${videoName}.mp4`,
+        downloadBehavior: {
+          type: "download",
+          fileName: `${videoName}.mp4`,
+        },
+      });
+
+      return { renderId };
+    },
+    getProgress: async (renderId) => {
+      const { bucketName, functionName } = await deploy();
+
+      try {
+        const progress = await getRenderProgress({
+          region,
+          bucketName,
+          functionName,
+          renderId,
+        });
+
+        if (progress.fatalErrorEncountered) {
+          return {
+            type: "render-error",
+            error: progress.errors[0]?.message ?? "Render failed",
+          };
+        }
+
+        if (progress.done && progress.outputFile) {
+          return { type: "video-available", url: progress.outputFile };
+        }
+
+        return {
+          type: "render-running",
+          progress: progress.overallProgress,
+          stage: getStage(progress),
+        };
+      } catch (err) {
+        return {
+          type: "render-error",
+          error: err instanceof Error ? err.message : String(err),
+        };
+      }
+    },
+  };
+};
@@ -0,0 +1,113 @@
+import { randomUUID } from "node:crypto";
+import { mkdir } from "node:fs/promises";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import type { CompositionParameters } from "../config";
+import { DEFAULT_OUTPUT_DIR } from "../render-server/output-dir";
+import type { RenderJobKey } from "../render-server/render-queue";
+import {
+  createRenderQueue,
+  getRenderJobId,
+  toRenderResponse,
+} from "../render-server/render-queue";
+import {
+  bundleUnwrapped,
+  renderUnwrapped,
+} from "../render-server/render-video";
+import type { RenderBackend } from "./index";
+
+// How long getProgress() still answers for a render once it finished
+const FINISHED_RENDER_RETENTION = 60 * 60 * 1000;
+
+/**
+ * Renders with local Chrome, one video at a time. Stands in for Lambda in
+ * development and CI.
+ *
+ * Like on Lambda, every `startRender()` is a render of its own, with its own
+ * output file. Finished renders are forgotten after an hour, their videos
+ * stay in `outputDir`.
+ */
+export const createLocalRenderBackend = ({
+  outputDir = DEFAULT_OUTPUT_DIR,
+  serveUrl: existingServeUrl,
+  getVideoUrl = (outputPath) => pathToFileURL(outputPath).href,
+}: {
+  outputDir?: string;
+  /**
+   * An existing bundle. Skips bundling in `deploy()`.
+   */
+  serveUrl?: string;
+  getVideoUrl?: (outputPath: string) => string;
+} = {}): RenderBackend => {
+  let serveUrl: Promise<string> | null = null;
+  // Render IDs handed out by startRender()
+  const renders = new Map<string, RenderJobKey>();
+
+  const deploy = () => {
+    serveUrl ??= (async () => {
+      await mkdir(outputDir, { recursive: true });
+      return existingServeUrl ?? bundleUnwrapped();
+    })().catch((err) => {
+      serveUrl = null;
+      throw err;
+    });
+
+    return serveUrl;
+  };
+
+  const queue = createRenderQueue<
+    RenderJobKey & { renderId: string; inputProps: CompositionParameters }
+  >({
+    render: async ({ key, onProgress }) => {
+      return renderUnwrapped({
+        serveUrl: await deploy(),
+        inputProps: key.inputProps,
+        outputLocation: path.join(outputDir, `${key.renderId}.mp4`),
+        onProgress,
+      });
+    },
+  });
+
+  return {
+    name: "local",
+    deploy: async () => {
+      await deploy();
+    },
+    startRender: async ({ inputProps }) => {
+      await deploy();
+
+      const job = { username: inputProps.login, theme: inputProps.rocket };
+      // A new ID per call, never one handed out before. It is also the ID
+      // of the queued job, so renders of the same user are never shared.
+      const renderId = `${getRenderJobId(job)}-${randomUUID()}`;
+      const key = { ...job, renderId, inputProps };
+
+      const unsubscribe = queue.subscribe(key, (changed) => {
+        if (changed.status !== "done" && changed.status !== "error") {
+          return;
+        }
+
+        unsubscribe();
+        setTimeout(() => {
+          renders.delete(renderId);
+          queue.remove(key);
+        }, FINISHED_RENDER_RETENTION).unref();
+      });
+
+      renders.set(renderId, key);
+      queue.enqueue(key);
+
+      return { renderId };
+    },
+    getProgress: async (renderId) => {
+      const key = renders.get(renderId);
+      const job = key ? queue.getJob(key) : null;
+
+      if (!job) {
+        return { type: "render-error", error: `Unknown render ${renderId}` };
+      }
+
+      return toRenderResponse(job, getVideoUrl);
+    },
+  };
+};
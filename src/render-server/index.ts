@@ -0,0 +1,574 @@
+import { createReadStream } from "node:fs";
+import { access, mkdir } from "node:fs/promises";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { createServer } from "node:http";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import type { z } from "zod";
+import { getMockProfileStats } from "../../remotion/test-scenes/components/MockData";
+import type {
+  CompositionParameters,
+  OgImageParameters,
+  RenderResponse,
+} from "../config";
+import {
+  GITHUB_USERNAME_REGEX,
+  ProgressRequest,
+  RenderRequest,
+  computeCompositionParameters,
+  computeOgImageParameters,
+} from "../config";
+import { GitHubNotFoundError } from "../github";
+import { createGitHubStatsRepository } from "../stats-repository/github";
+import { DEFAULT_OUTPUT_DIR } from "./output-dir";
+import {
+  createRenderCache,
+  getCodeVersion,
+  getRenderCacheKey,
+} from "./render-cache";
+import type { RenderJob } from "./render-queue";
+import {
+  createRenderQueue,
+  getRenderJobId,
+  toRenderResponse,
+} from "./render-queue";
+import {
+  OG_IMAGE_COMPOSITION_ID,
+  UNWRAPPED_COMPOSITION_ID,
+  bundleUnwrapped,
+  renderOgImage,
+  renderUnwrapped,
+} from "./render-video";
+
+/**
+ * Renders Unwrapped videos with local Chrome, no Lambda needed.
+ *
+ *   POST /render    RenderRequest   → RenderResponse, starts a render if needed
+ *   POST /progress  ProgressRequest → RenderResponse
+ *   GET  /progress/events?username=&theme=  RenderResponse as server-sent
+ *        events, until the video is available or the render failed
+ *   GET  /videos/<cache key>.mp4
+ *   GET  /og/<username>.png  the user's OG image, rendered on first request
+ *
+ * The Remotion project is bundled once, in the background while the server
+ * already accepts requests, and renders (videos and OG images) run one at a
+ * time. Finished videos are cached in `outputDir` by a hash of their props,
+ * the composition and the code version, so a request for a video that was
+ * rendered before (even before a restart) is answered immediately.
+ */
+
+export { DEFAULT_OUTPUT_DIR };
+
+const VIDEO_FILE_REGEX = /^[a-z\d-]+\.mp4$/i;
+// Keeps idle event streams from being closed by proxies
+const EVENTS_HEARTBEAT_INTERVAL = 15_000;
+const OG_IMAGE_PATH_REGEX = /^\/og\/([^/]+)\.png$/;
+// Requests are a username and a theme, anything bigger is not one
+const MAX_BODY_SIZE = 16 * 1024;
+
+export type RenderServerOptions = {
+  port?: number;
+  host?: string;
+  outputDir?: string;
+  /**
+   * An existing bundle. Skips bundling at startup.
+   */
+  serveUrl?: string;
+  /**
+   * Part of the cache key. Defaults to `getCodeVersion()`.
+   */
+  codeVersion?: string;
+  getCompositionParameters: (
+    request: z.infer<typeof RenderRequest>,
+  ) => Promise<CompositionParameters>;
+  /**
+   * Enables `GET /og/<username>.png`.
+   */
+  getOgImageParameters?: (username: string) => Promise<OgImageParameters>;
+};
+
+type VideoJobKey = z.infer<typeof RenderRequest> & {
+  type: "video";
+  inputProps: CompositionParameters;
+  cacheKey: string;
+};
+
+type OgImageJobKey = {
+  type: "og-image";
+  username: string;
+  // Not a rocket, so job IDs never clash with those of videos
+  theme: typeof OG_IMAGE_COMPOSITION_ID;
+  inputProps: OgImageParameters;
+  cacheKey: string;
+};
+
+class BodyTooLargeError extends Error {
+  constructor() {
+    super(`Body must be at most ${MAX_BODY_SIZE} bytes`);
+    this.name = "BodyTooLargeError";
+  }
+}
+
+const readJsonBody = async (req: IncomingMessage) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_SIZE) {
+      throw new BodyTooLargeError();
+    }
+
+    chunks.push(chunk as Buffer);
+  }
+
+  return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+};
+
+const sendJson = (
+  res: ServerResponse,
+  status: number,
+  body: RenderResponse,
+) => {
+  res.writeHead(status, { "content-type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+const fileExists = async (filePath: string) => {
+  try {
+    await access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const startRenderServer = async ({
+  port = 0,
+  host = "127.0.0.1",
+  outputDir = DEFAULT_OUTPUT_DIR,
+  serveUrl: existingServeUrl,
+  codeVersion = getCodeVersion(),
+  getCompositionParameters,
+  getOgImageParameters,
+}: RenderServerOptions) => {
+  await mkdir(outputDir, { recursive: true });
+
+  let bundled = Boolean(existingServeUrl);
+  const serveUrl = existingServeUrl
+    ? Promise.resolve(existingServeUrl)
+    : bundleUnwrapped().then((url) => {
+        bundled = true;
+        return url;
+      });
+  // A failed bundle fails every render instead of crashing the server
+  serveUrl.catch(() => undefined);
+
+  const cache = createRenderCache({ dir: outputDir });
+  const ogImageCache = createRenderCache({
+    dir: path.join(outputDir, "og"),
+    extension: "png",
+  });
+
+  const queue = createRenderQueue<VideoJobKey | OgImageJobKey>({
+    render: async ({ key, onProgress }) => {
+      if (!bundled) {
+        onProgress(0, "bundling");
+      }
+
+      if (key.type === "og-image") {
+        const renderedPath = await renderOgImage({
+          serveUrl: await serveUrl,
+          inputProps: key.inputProps,
+          outputLocation: ogImageCache.getTemporaryPath(key.cacheKey),
+        });
+        return ogImageCache.put(key.cacheKey, renderedPath);
+      }
+
+      const renderedPath = await renderUnwrapped({
+        serveUrl: await serveUrl,
+        inputProps: key.inputProps,
+        outputLocation: cache.getTemporaryPath(key.cacheKey),
+        onProgress,
+      });
+
+      return cache.put(key.cacheKey, renderedPath);
+    },
+  });
+
+  // Renders being started (fetching stats, checking the cache) by job ID,
+  // so that concurrent requests for the same video share one start
+  const startingVideos = new Map<string, Promise<RenderResponse>>();
+
+  let baseUrl = "";
+  const getVideoUrl = (outputPath: string) => {
+    return `${baseUrl}/videos/${path.basename(outputPath)}`;
+  };
+
+  // Resolves with the output of the job once it is done
+  const waitForJob = (key: VideoJobKey | OgImageJobKey) => {
+    return new Promise<string>((resolve, reject) => {
+      const settle = (job: RenderJob) => {
+        if (job.status === "done") {
+          unsubscribe();
+          resolve(job.outputPath);
+        } else if (job.status === "error") {
+          unsubscribe();
+          reject(new Error(job.error));
+        }
+      };
+
+      const unsubscribe = queue.subscribe(key, settle);
+      // The cache is checked before, so a finished job is outdated
+      settle(queue.enqueue(key, { refresh: true }));
+    });
+  };
+
+  const getOgImage = async (username: string) => {
+    if (!getOgImageParameters) {
+      return null;
+    }
+
+    const inputProps = await getOgImageParameters(username);
+    const cacheKey = getRenderCacheKey({
+      inputProps,
+      compositionId: OG_IMAGE_COMPOSITION_ID,
+      codeVersion,
+    });
+
+    const cachedPath = await ogImageCache.get(cacheKey);
+    if (cachedPath) {
+      return cachedPath;
+    }
+
+    return waitForJob({
+      type: "og-image",
+      username,
+      theme: OG_IMAGE_COMPOSITION_ID,
+      inputProps,
+      cacheKey,
+    });
+  };
+
+  const startVideo = async (
+    request: z.infer<typeof RenderRequest>,
+  ): Promise<RenderResponse> => {
+    const inputProps = await getCompositionParameters(request);
+    const cacheKey = getRenderCacheKey({
+      inputProps,
+      compositionId: UNWRAPPED_COMPOSITION_ID,
+      codeVersion,
+    });
+
+    const cachedPath = request.refreshCache ? null : await cache.get(cacheKey);
+    if (cachedPath) {
+      queue.markDone(request, cachedPath);
+      return { type: "video-available", url: getVideoUrl(cachedPath) };
+    }
+
+    // The cache was checked above, so a finished job is outdated
+    const job = queue.enqueue(
+      { ...request, type: "video", inputProps, cacheKey },
+      { refresh: true },
+    );
+    return toRenderResponse(job, getVideoUrl);
+  };
+
+  const streamProgressEvents = (
+    req: IncomingMessage,
+    res: ServerResponse,
+    request: z.infer<typeof ProgressRequest>,
+  ) => {
+    res.writeHead(200, {
+      "content-type": "text/event-stream",
+      "cache-control": "no-cache",
+      connection: "keep-alive",
+      // Subscribed to from the Next.js app, which runs on another origin
+      "access-control-allow-origin": "*",
+    });
+
+    let lastEvent = "";
+    const send = (response: RenderResponse) => {
+      // Progress is reported per frame, a percent is precise enough
+      const rounded =
+        response.type === "render-running"
+          ? { ...response, progress: Math.floor(response.progress * 100) / 100 }
+          : response;
+      const event = `event: ${rounded.type}\ndata: ${JSON.stringify(rounded)}\n\n`;
+      if (event !== lastEvent) {
+        res.write(event);
+        lastEvent = event;
+      }
+
+      if (response.type !== "render-running") {
+        close();
+      }
+    };
+
+    const heartbeat = setInterval(() => {
+      res.write(": heartbeat\n\n");
+    }, EVENTS_HEARTBEAT_INTERVAL);
+
+    let unsubscribe: (() => void) | null = null;
+    const close = () => {
+      clearInterval(heartbeat);
+      unsubscribe?.();
+      res.end();
+    };
+    req.on("close", close);
+
+    const job = queue.getJob(request);
+    const starting = startingVideos.get(getRenderJobId(request));
+    if (!job && !starting) {
+      send({
+        type: "render-error",
+        error: `No render for ${getRenderJobId(request)} was requested`,
+      });
+      return;
+    }
+
+    unsubscribe = queue.subscribe(request, (changed) => {
+      send(toRenderResponse(changed, getVideoUrl));
+    });
+
+    if (job) {
+      send(toRenderResponse(job, getVideoUrl));
+      return;
+    }
+
+    send({ type: "render-running", progress: 0 });
+    starting?.then(send, (err) => {
+      send({
+        type: "render-error",
+        error: err instanceof Error ? err.message : String(err),
+      });
+    });
+  };
+
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? "/", baseUrl);
+
+    if (req.method === "GET" && url.pathname === "/progress/events") {
+      const parsed = ProgressRequest.safeParse(
+        Object.fromEntries(url.searchParams),
+      );
+      if (
+        !parsed.success ||
+        !GITHUB_USERNAME_REGEX.test(parsed.data.username)
+      ) {
+        sendJson(res, 400, {
+          type: "render-error",
+          error: "Pass a valid username and theme",
+        });
+        return;
+      }
+
+      streamProgressEvents(req, res, parsed.data);
+      return;
+    }
+
+    const ogImageMatch = url.pathname.match(OG_IMAGE_PATH_REGEX);
+    if (req.method === "GET" && ogImageMatch) {
+      const username = decodeURIComponent(ogImageMatch[1]);
+      const imagePath = GITHUB_USERNAME_REGEX.test(username)
+        ? await getOgImage(username).catch((err) => {
+            if (err instanceof GitHubNotFoundError) {
+              return null;
+            }
+
+            throw err;
+          })
+        : null;
+
+      if (!imagePath) {
+        res.writeHead(404);
+        res.end();
+        return;
+      }
+
+      res.writeHead(200, { "content-type": "image/png" });
+      createReadStream(imagePath).pipe(res);
+      return;
+    }
+
+    if (req.method === "GET" && url.pathname.startsWith("/videos/")) {
+      const fileName = url.pathname.slice("/videos/".length);
+      const filePath = path.join(outputDir, fileName);
+
+      if (!VIDEO_FILE_REGEX.test(fileName) || !(await fileExists(filePath))) {
+        res.writeHead(404);
+        res.end();
+        return;
+      }
+
+      res.writeHead(200, { "content-type": "video/mp4" });
+      createReadStream(filePath).pipe(res);
+      return;
+    }
+
+    if (
+      req.method !== "POST" ||
+      (url.pathname !== "/render" && url.pathname !== "/progress")
+    ) {
+      res.writeHead(404);
+      res.end();
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch (err) {
+      if (err instanceof BodyTooLargeError) {
+        sendJson(res, 413, { type: "render-error", error: err.message });
+        return;
+      }
+
+      sendJson(res, 400, {
+        type: "render-error",
+        error: "Body must be JSON",
+      });
+      return;
+    }
+
+    const parsed =
+      url.pathname === "/render"
+        ? RenderRequest.safeParse(body)
+        : ProgressRequest.safeParse(body);
+    if (!parsed.success) {
+      sendJson(res, 400, {
+        type: "render-error",
+        error: parsed.error.issues.map((issue) => issue.message).join(", "),
+      });
+      return;
+    }
+
+    if (!GITHUB_USERNAME_REGEX.test(parsed.data.username)) {
+      sendJson(res, 400, {
+        type: "render-error",
+        error: `${parsed.data.username} is not a valid GitHub username`,
+      });
+      return;
+    }
+
+    const existing = queue.getJob(parsed.data);
+    const id = getRenderJobId(parsed.data);
+
+    if (url.pathname === "/progress") {
+      if (!existing && startingVideos.has(id)) {
+        sendJson(res, 200, { type: "render-running", progress: 0 });
+        return;
+      }
+
+      if (!existing) {
+        sendJson(res, 404, {
+          type: "render-error",
+          error: `No render for ${getRenderJobId(parsed.data)} was requested`,
+        });
+        return;
+      }
+
+      sendJson(res, 200, toRenderResponse(existing, getVideoUrl));
+      return;
+    }
+
+    if (
+      existing &&
+      (existing.status === "queued" || existing.status === "rendering")
+    ) {
+      sendJson(res, 200, toRenderResponse(existing, getVideoUrl));
+      return;
+    }
+
+    let starting = startingVideos.get(id);
+    if (!starting) {
+      starting = startVideo(RenderRequest.parse(body)).finally(() => {
+        startingVideos.delete(id);
+      });
+      startingVideos.set(id, starting);
+    }
+
+    try {
+      sendJson(res, 200, await starting);
+    } catch (err) {
+      if (!(err instanceof GitHubNotFoundError)) {
+        throw err;
+      }
+
+      sendJson(res, 404, { type: "render-error", error: err.message });
+    }
+  };
+
+  const server = createServer((req, res) => {
+    handleRequest(req, res).catch((err) => {
+      // E.g. a file stream that failed after its headers were sent
+      if (res.headersSent) {
+        res.destroy(err instanceof Error ? err : new Error(String(err)));
+        return;
+      }
+
+      sendJson(res, 500, {
+        type: "render-error",
+        error: err instanceof Error ? err.message : String(err),
+      });
+    });
+  });
+
+  return new Promise<{ url: string; close: () => Promise<void> }>((resolve) => {
+    server.listen(port, host, () => {
+      const address = server.address();
+      const actualPort =
+        typeof address === "object" && address ? address.port : port;
+      baseUrl = `http://${host}:${actualPort}`;
+
+      resolve({
+        url: baseUrl,
+        close: () => {
+          return new Promise<void>((done) => {
+            server.close(() => done());
+          });
+        },
+      });
+    });
+  });
+};
+
+if (import.meta.url === pathToFileURL(process.argv[1] ?? "").href) {
+  const token = process.env.GITHUB_TOKEN;
+  // Like the Next.js app in development: without a token, every user gets
+  // the mock stats, so the app's videos render without GitHub access
+  if (!token && process.env.NODE_ENV === "production") {
+    throw new Error("Set GITHUB_TOKEN to fetch the stats of the users");
+  }
+
+  const year = Number(process.env.UNWRAPPED_YEAR ?? new Date().getFullYear());
+
+  const statsRepository = token
+    ? createGitHubStatsRepository({ token, year })
+    : null;
+  if (!statsRepository) {
+    console.warn("GITHUB_TOKEN is not set, rendering the mock stats");
+  }
+
+  const getStats = async (options: {
+    username: string;
+    refreshCache?: boolean;
+  }) => {
+    return statsRepository
+      ? statsRepository.getStats(options)
+      : getMockProfileStats(options.username);
+  };
+
+  startRenderServer({
+    port: Number(process.env.PORT ?? 4020),
+    getCompositionParameters: async ({ username, theme, refreshCache }) => {
+      const stats = await getStats({ username, refreshCache });
+      return computeCompositionParameters(stats, theme);
+    },
+    getOgImageParameters: async (username) => {
+      const stats = await getStats({ username });
+      return computeOgImageParameters(stats);
+    },
+  }).then(({ url }) => {
+    console.log(`Render server listening on ${url}`);
+  });
+}
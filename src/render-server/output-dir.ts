@@ -0,0 +1,7 @@
+import path from "node:path";
+
+/**
+ * Where rendered videos are written, shared by the render server and the
+ * local render backend.
+ */
+export const DEFAULT_OUTPUT_DIR = path.join(process.cwd(), "out", "renders");
@@ -0,0 +1,69 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { createRenderCache, getRenderCacheKey } from "./render-cache";
+
+describe("getRenderCacheKey()", () => {
+  const key = {
+    inputProps: { login: "octocat", starsGiven: 3, rocket: "blue" },
+    compositionId: "Unwrapped",
+    codeVersion: "abc123",
+  };
+
+  test("doesn't depend on the order of the props", () => {
+    expect(
+      getRenderCacheKey({
+        ...key,
+        inputProps: { rocket: "blue", starsGiven: 3, login: "octocat" },
+      }),
+    ).toBe(getRenderCacheKey(key));
+  });
+
+  test("ignores props that are undefined", () => {
+    expect(
+      getRenderCacheKey({
+        ...key,
+        inputProps: { ...key.inputProps, topLanguages: undefined },
+      }),
+    ).toBe(getRenderCacheKey(key));
+  });
+
+  test("changes with the props, the composition and the code version", () => {
+    const keys = new Set([
+      getRenderCacheKey(key),
+      getRenderCacheKey({
+        ...key,
+        inputProps: { ...key.inputProps, starsGiven: 4 },
+      }),
+      getRenderCacheKey({ ...key, compositionId: "OgImage" }),
+      getRenderCacheKey({ ...key, codeVersion: "def456" }),
+    ]);
+
+    expect(keys.size).toBe(4);
+  });
+});
+
+describe("createRenderCache()", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "render-cache-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("only has a video once it was put", async () => {
+    const cache = createRenderCache({ dir });
+    const renderedPath = cache.getTemporaryPath("key");
+    await writeFile(renderedPath, "video");
+
+    expect(await cache.get("key")).toBe(null);
+    expect(await cache.put("key", renderedPath)).toBe(
+      path.join(dir, "key.mp4"),
+    );
+    expect(await cache.get("key")).toBe(path.join(dir, "key.mp4"));
+  });
+});
@@ -0,0 +1,102 @@
+import { execFileSync } from "node:child_process";
+import { createHash } from "node:crypto";
+import { access, mkdir, rename } from "node:fs/promises";
+import path from "node:path";
+
+// Sorts object keys so that equal props always serialize the same way
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+    return `{${entries.join(",")}}`;
+  }
+
+  return JSON.stringify(value);
+};
+
+/**
+ * Identifies a video by everything that affects how it looks: the props,
+ * the composition and the code that renders it. Two requests with the same
+ * key produce the same video.
+ */
+export const getRenderCacheKey = ({
+  inputProps,
+  compositionId,
+  codeVersion,
+}: {
+  inputProps: Record<string, unknown>;
+  compositionId: string;
+  codeVersion: string;
+}) => {
+  return createHash("sha256")
+    .update(stableStringify({ inputProps, compositionId, codeVersion }))
+    .digest("hex");
+};
+
+/**
+ * `UNWRAPPED_CODE_VERSION` if set (e.g. by the deployment), otherwise the
+ * current git commit.
+ */
+export const getCodeVersion = () => {
+  if (process.env.UNWRAPPED_CODE_VERSION) {
+    return process.env.UNWRAPPED_CODE_VERSION;
+  }
+
+  try {
+    return execFileSync("git", ["rev-parse", "HEAD"], {
+      encoding: "utf-8",
+      stdio: ["ignore", "pipe", "ignore"],
+    }).trim();
+  } catch {
+    throw new Error(
+      "Could not determine the code version. Set UNWRAPPED_CODE_VERSION or run from a git checkout.",
+    );
+  }
+};
+
+/**
+ * Finished renders on disk, stored as `<cache key>.<extension>`. Files are
+ * moved in only once they are complete, so an interrupted render is never a
+ * hit.
+ */
+export const createRenderCache = ({
+  dir,
+  extension = "mp4",
+}: {
+  dir: string;
+  extension?: string;
+}) => {
+  const getPath = (key: string) => {
+    return path.join(dir, `${key}.${extension}`);
+  };
+
+  const get = async (key: string) => {
+    try {
+      await access(getPath(key));
+      return getPath(key);
+    } catch {
+      return null;
+    }
+  };
+
+  /**
+   * Where to render before handing the file to `put()`.
+   */
+  const getTemporaryPath = (key: string) => {
+    return path.join(dir, `${key}.rendering.${extension}`);
+  };
+
+  const put = async (key: string, renderedPath: string) => {
+    await mkdir(dir, { recursive: true });
+    await rename(renderedPath, getPath(key));
+    return getPath(key);
+  };
+
+  return { get, getTemporaryPath, put };
+};
@@ -0,0 +1,175 @@
+import type { RenderResponse, RenderStage } from "../config";
+
+export type RenderJobKey = {
+  username: string;
+  theme: string;
+  /**
+   * Makes the job its own instead of the one of username + theme, for
+   * backends where every call renders
+   */
+  renderId?: string;
+};
+
+export type RenderJob =
+  | { status: "queued" }
+  | { status: "rendering"; progress: number; stage: RenderStage }
+  | { status: "done"; outputPath: string }
+  | { status: "error"; error: string };
+
+export type RenderTask<Key extends RenderJobKey> = (options: {
+  key: Key;
+  onProgress: (progress: number, stage: RenderStage) => void;
+}) => Promise<string>;
+
+export const getRenderJobId = ({ username, theme, renderId }: RenderJobKey) => {
+  return renderId ?? `${username.toLowerCase()}-${theme}`;
+};
+
+/**
+ * Renders one job at a time, in the order they were enqueued. Jobs are
+ * identified by username + theme (or their `renderId`), so asking for the
+ * same video twice doesn't render it twice.
+ *
+ * A job that errored is retried the next time it is enqueued. A finished job
+ * is only rendered again with `refresh`. `subscribe()` reports every change
+ * of a job.
+ */
+export const createRenderQueue = <Key extends RenderJobKey>({
+  render,
+}: {
+  render: RenderTask<Key>;
+}) => {
+  const jobs = new Map<string, RenderJob>();
+  const listeners = new Map<string, Set<(job: RenderJob) => void>>();
+  const pending: Key[] = [];
+  let running = false;
+
+  const setJob = (id: string, job: RenderJob) => {
+    jobs.set(id, job);
+    for (const listener of listeners.get(id) ?? []) {
+      listener(job);
+    }
+  };
+
+  const runNext = async () => {
+    const key = pending.shift();
+    if (!key) {
+      running = false;
+      return;
+    }
+
+    running = true;
+    const id = getRenderJobId(key);
+    setJob(id, { status: "rendering", progress: 0, stage: "rendering" });
+
+    try {
+      const outputPath = await render({
+        key,
+        onProgress: (progress, stage) => {
+          setJob(id, { status: "rendering", progress, stage });
+        },
+      });
+      setJob(id, { status: "done", outputPath });
+    } catch (err) {
+      setJob(id, {
+        status: "error",
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+
+    await runNext();
+  };
+
+  const enqueue = (
+    key: Key,
+    { refresh = false }: { refresh?: boolean } = {},
+  ): RenderJob => {
+    const id = getRenderJobId(key);
+    const existing = jobs.get(id);
+    if (
+      existing &&
+      (existing.status === "queued" ||
+        existing.status === "rendering" ||
+        (existing.status === "done" && !refresh))
+    ) {
+      return existing;
+    }
+
+    const job: RenderJob = { status: "queued" };
+    setJob(id, job);
+    pending.push(key);
+
+    if (!running) {
+      runNext();
+    }
+
+    return job;
+  };
+
+  const getJob = (key: RenderJobKey): RenderJob | null => {
+    return jobs.get(getRenderJobId(key)) ?? null;
+  };
+
+  /**
+   * Register a video that already exists, e.g. rendered before a restart.
+   */
+  const markDone = (key: RenderJobKey, outputPath: string) => {
+    setJob(getRenderJobId(key), { status: "done", outputPath });
+  };
+
+  /**
+   * Forgets a finished or failed job. Returns false for a job that is still
+   * queued or rendering, which is kept.
+   */
+  const remove = (key: RenderJobKey) => {
+    const id = getRenderJobId(key);
+    const job = jobs.get(id);
+    if (job && (job.status === "queued" || job.status === "rendering")) {
+      return false;
+    }
+
+    jobs.delete(id);
+    listeners.delete(id);
+    return true;
+  };
+
+  /**
+   * Calls `listener` whenever the job changes. Returns an unsubscribe
+   * function.
+   */
+  const subscribe = (key: RenderJobKey, listener: (job: RenderJob) => void) => {
+    const id = getRenderJobId(key);
+    const forJob = listeners.get(id) ?? new Set();
+    forJob.add(listener);
+    listeners.set(id, forJob);
+
+    return () => {
+      forJob.delete(listener);
+      if (forJob.size === 0) {
+        listeners.delete(id);
+      }
+    };
+  };
+
+  return { enqueue, getJob, markDone, remove, subscribe };
+};
+
+export const toRenderResponse = (
+  job: RenderJob,
+  getVideoUrl: (outputPath: string) => string,
+): RenderResponse => {
+  switch (job.status) {
+    case "queued":
+      return { type: "render-running", progress: 0 };
+    case "rendering":
+      return {
+        type: "render-running",
+        progress: job.progress,
+        stage: job.stage,
+      };
+    case "done":
+      return { type: "video-available", url: getVideoUrl(job.outputPath) };
+    case "error":
+      return { type: "render-error", error: job.error };
+  }
+};
@@ -0,0 +1,90 @@
+import { bundle } from "@remotion/bundler";
+import {
+  renderMedia,
+  renderStill,
+  selectComposition,
+} from "@remotion/renderer";
+import { fileURLToPath } from "node:url";
+import type {
+  CompositionParameters,
+  OgImageParameters,
+  RenderStage,
+} from "../config";
+
+const ENTRY_POINT = fileURLToPath(
+  new URL("../../remotion/index.ts", import.meta.url),
+);
+
+export const UNWRAPPED_COMPOSITION_ID = "Unwrapped";
+export const OG_IMAGE_COMPOSITION_ID = "OgImage";
+
+/**
+ * Bundles the Remotion project with webpack. Slow, so do it once and reuse
+ * the returned serve URL for every render.
+ */
+export const bundleUnwrapped = () => {
+  return bundle({
+    entryPoint: ENTRY_POINT,
+    onProgress: () => undefined,
+  });
+};
+
+export const renderUnwrapped = async ({
+  serveUrl,
+  inputProps,
+  outputLocation,
+  onProgress,
+}: {
+  serveUrl: string;
+  inputProps: CompositionParameters;
+  outputLocation: string;
+  onProgress: (progress: number, stage: RenderStage) => void;
+}) => {
+  // Resolves calculateMetadata(), so the duration matches the user's stats
+  const composition = await selectComposition({
+    serveUrl,
+    id: UNWRAPPED_COMPOSITION_ID,
+    inputProps,
+  });
+
+  await renderMedia({
+    serveUrl,
+    composition,
+    inputProps,
+    codec: "h264",
+    // Same as remotion.config.ts, which the Node APIs don't read
+    imageFormat: "jpeg",
+    outputLocation,
+    onProgress: ({ progress, renderedDoneIn }) => {
+      onProgress(progress, renderedDoneIn === null ? "rendering" : "encoding");
+    },
+  });
+
+  return outputLocation;
+};
+
+export const renderOgImage = async ({
+  serveUrl,
+  inputProps,
+  outputLocation,
+}: {
+  serveUrl: string;
+  inputProps: OgImageParameters;
+  outputLocation: string;
+}) => {
+  const composition = await selectComposition({
+    serveUrl,
+    id: OG_IMAGE_COMPOSITION_ID,
+    inputProps,
+  });
+
+  await renderStill({
+    serveUrl,
+    composition,
+    inputProps,
+    imageFormat: "png",
+    output: outputLocation,
+  });
+
+  return outputLocation;
+};
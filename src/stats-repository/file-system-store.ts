@@ -0,0 +1,58 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { ProfileStats } from "../config";
+import type { StatsKey, StatsStore } from "./index";
+
+// Also rules out path traversal, lowercased GitHub logins only
+const LOWERCASED_USERNAME_REGEX = /^[a-z\d](?:[a-z\d]|-(?=[a-z\d])){0,38}$/;
+
+/**
+ * One JSON file per user and year: `<dir>/<year>/<lowercased username>.json`.
+ */
+export const createFileSystemStatsStore = ({
+  dir,
+}: {
+  dir: string;
+}): StatsStore => {
+  const getDir = (year: number) => {
+    if (!Number.isInteger(year)) {
+      throw new Error(`${year} is not a year`);
+    }
+
+    return path.join(dir, String(year));
+  };
+
+  const getPath = ({ lowercasedUsername, year }: StatsKey) => {
+    if (!LOWERCASED_USERNAME_REGEX.test(lowercasedUsername)) {
+      throw new Error(`${lowercasedUsername} is not a lowercased username`);
+    }
+
+    return path.join(getDir(year), `${lowercasedUsername}.json`);
+  };
+
+  return {
+    get: async (key) => {
+      let contents: string;
+      try {
+        contents = await readFile(getPath(key), "utf-8");
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+          return null;
+        }
+
+        throw err;
+      }
+
+      return JSON.parse(contents) as ProfileStats;
+    },
+    put: async (key, stats) => {
+      const filePath = getPath(key);
+      await mkdir(getDir(key.year), { recursive: true });
+
+      // Write, then rename, so that readers never see half a file
+      const temporaryPath = `${filePath}.${process.pid}.tmp`;
+      await writeFile(temporaryPath, JSON.stringify(stats));
+      await rename(temporaryPath, filePath);
+    },
+  };
+};
@@ -0,0 +1,29 @@
+import path from "node:path";
+import { getProfileStatsFromGitHub } from "../github";
+import { createFileSystemStatsStore } from "./file-system-store";
+import { createStatsRepository } from "./index";
+
+export const DEFAULT_STATS_DIR = path.join(process.cwd(), "out", "stats");
+
+/**
+ * Stats of `year` (and of the year before, for snapshots) from the GitHub
+ * API, cached on disk. Used by the render server and the Next.js app, which
+ * share `DEFAULT_STATS_DIR`.
+ */
+export const createGitHubStatsRepository = ({
+  token,
+  year,
+  dir = DEFAULT_STATS_DIR,
+}: {
+  token: string;
+  year: number;
+  dir?: string;
+}) => {
+  return createStatsRepository({
+    store: createFileSystemStatsStore({ dir }),
+    year,
+    fetchStats: (options) => {
+      return getProfileStatsFromGitHub({ ...options, token });
+    },
+  });
+};
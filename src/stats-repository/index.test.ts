@@ -0,0 +1,114 @@
+import { describe, expect, test } from "vitest";
+import {
+  MOCK_YEAR,
+  getMockProfileStats,
+} from "../../remotion/test-scenes/components/MockData";
+import type { ProfileStats } from "../config";
+import type { StatsKey, StatsStore } from "./index";
+import { createStatsRepository } from "./index";
+
+const TTL = 1000;
+
+const createMemoryStore = (): StatsStore => {
+  const entries = new Map<string, ProfileStats>();
+  const getId = ({ lowercasedUsername, year }: StatsKey) => {
+    return `${lowercasedUsername}-${year}`;
+  };
+
+  return {
+    get: async (key) => entries.get(getId(key)) ?? null,
+    put: async (key, stats) => {
+      entries.set(getId(key), stats);
+    },
+  };
+};
+
+const createRepository = ({ year = 2025 }: { year?: number } = {}) => {
+  let time = 0;
+  const fetches: Array<{ username: string; year: number }> = [];
+
+  const repository = createStatsRepository({
+    store: createMemoryStore(),
+    year,
+    ttlInMilliseconds: TTL,
+    now: () => time,
+    fetchStats: async (options) => {
+      fetches.push(options);
+      return {
+        ...getMockProfileStats(options.username),
+        year: options.year,
+        fetchedAt: time,
+      };
+    },
+  });
+
+  return {
+    repository,
+    fetches,
+    advance: (ms: number) => {
+      time += ms;
+    },
+  };
+};
+
+describe("createStatsRepository()", () => {
+  test("returns the stored stats until the TTL is over", async () => {
+    const { repository, fetches, advance } = createRepository();
+
+    await repository.getStats({ username: "Octocat" });
+    advance(TTL - 1);
+    await repository.getStats({ username: "octocat" });
+    expect(fetches.length).toBe(1);
+
+    advance(1);
+    await repository.getStats({ username: "octocat" });
+    expect(fetches.length).toBe(2);
+  });
+
+  test("refetches with refreshCache", async () => {
+    const { repository, fetches } = createRepository();
+
+    await repository.getStats({ username: "octocat" });
+    await repository.getStats({ username: "octocat", refreshCache: true });
+    expect(fetches.length).toBe(2);
+  });
+
+  test("shares one fetch between concurrent requests", async () => {
+    const { repository, fetches } = createRepository();
+
+    await Promise.all([
+      repository.getStats({ username: "octocat", refreshCache: true }),
+      repository.getStats({ username: "Octocat", refreshCache: true }),
+    ]);
+    expect(fetches.length).toBe(1);
+  });
+
+  test("rejects stats of another year", async () => {
+    const repository = createStatsRepository({
+      store: createMemoryStore(),
+      year: MOCK_YEAR - 1,
+      fetchStats: async ({ username }) => getMockProfileStats(username),
+    });
+
+    await expect(repository.getStats({ username: "octocat" })).rejects.toThrow(
+      new RegExp(`Expected stats of ${MOCK_YEAR - 1}`),
+    );
+  });
+
+  test("fetches the year before once for snapshots", async () => {
+    const { repository, fetches, advance } = createRepository();
+
+    const snapshot = await repository.getSnapshot({ username: "octocat" });
+    expect(snapshot.current.year).toBe(2025);
+    expect(snapshot.previous.year).toBe(2024);
+
+    // The year before is over, its stats don't expire
+    advance(TTL * 10);
+    await repository.getSnapshot({ username: "octocat" });
+    expect(fetches).toEqual([
+      { username: "octocat", year: 2025 },
+      { username: "octocat", year: 2024 },
+      { username: "octocat", year: 2025 },
+    ]);
+  });
+});
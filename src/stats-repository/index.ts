@@ -0,0 +1,121 @@
+import type { ProfileStats } from "../config";
+
+export const DEFAULT_STATS_TTL_IN_MILLISECONDS = 24 * 60 * 60 * 1000;
+
+/**
+ * Stats of a user for one year, plus their stats of the year before for
+ * year-over-year comparisons.
+ */
+export type StatsSnapshot = {
+  current: ProfileStats;
+  previous: ProfileStats;
+};
+
+export type StatsKey = {
+  lowercasedUsername: string;
+  /**
+   * The year the stats cover (`ProfileStats.year`), not when they were fetched
+   */
+  year: number;
+};
+
+/**
+ * Where stats live, one entry per user and year.
+ */
+export type StatsStore = {
+  get: (key: StatsKey) => Promise<ProfileStats | null>;
+  put: (key: StatsKey, stats: ProfileStats) => Promise<void>;
+};
+
+/**
+ * Stats of `year` of a user, fetched at most once per `ttlInMilliseconds`
+ * (based on `ProfileStats.fetchedAt`) unless `refreshCache` is set.
+ *
+ * `getSnapshot()` also fetches the year before on demand. That year is over,
+ * so once stored its stats never expire.
+ */
+export const createStatsRepository = ({
+  store,
+  year,
+  fetchStats,
+  ttlInMilliseconds = DEFAULT_STATS_TTL_IN_MILLISECONDS,
+  now = Date.now,
+}: {
+  store: StatsStore;
+  year: number;
+  fetchStats: (options: {
+    username: string;
+    year: number;
+  }) => Promise<ProfileStats>;
+  ttlInMilliseconds?: number;
+  now?: () => number;
+}) => {
+  // Concurrent requests for the same user and year share one fetch
+  const inFlight = new Map<string, Promise<ProfileStats>>();
+
+  const refetch = (username: string, statsYear: number) => {
+    const lowercasedUsername = username.toLowerCase();
+    const id = `${lowercasedUsername}-${statsYear}`;
+    const existing = inFlight.get(id);
+    if (existing) {
+      return existing;
+    }
+
+    const promise = (async () => {
+      const fresh = await fetchStats({ username, year: statsYear });
+      if (fresh.year !== statsYear) {
+        throw new Error(
+          `Expected stats of ${statsYear} for ${username}, got ${fresh.year}`,
+        );
+      }
+
+      await store.put({ lowercasedUsername, year: statsYear }, fresh);
+      return fresh;
+    })().finally(() => {
+      inFlight.delete(id);
+    });
+
+    inFlight.set(id, promise);
+    return promise;
+  };
+
+  const getStats = async ({
+    username,
+    refreshCache = false,
+  }: {
+    username: string;
+    refreshCache?: boolean;
+  }): Promise<ProfileStats> => {
+    if (!refreshCache) {
+      const cached = await store.get({
+        lowercasedUsername: username.toLowerCase(),
+        year,
+      });
+      if (cached && now() - cached.fetchedAt < ttlInMilliseconds) {
+        return cached;
+      }
+    }
+
+    return refetch(username, year);
+  };
+
+  const getSnapshot = async (options: {
+    username: string;
+    refreshCache?: boolean;
+  }): Promise<StatsSnapshot> => {
+    const current = await getStats(options);
+    const previous =
+      (await store.get({
+        lowercasedUsername: options.username.toLowerCase(),
+        year: year - 1,
+      })) ?? (await refetch(options.username, year - 1));
+
+    return { current, previous };
+  };
+
+  return { getSnapshot, getStats };
+};
+
+export type StatsRepository = ReturnType<typeof createStatsRepository>;
+
+export { createFileSystemStatsStore } from "./file-system-store";
@@ -0,0 +1,48 @@
+import { describe, expect, test } from "vitest";
+import {
+  getDayOfYear,
+  getDaysInYear,
+  getLongestStreak,
+  getLongestStreakRange,
+} from "./contributions";
+
+describe("getLongestStreakRange()", () => {
+  test("is null without contributions", () => {
+    expect(getLongestStreakRange([])).toBe(null);
+    expect(getLongestStreakRange([0, 0, 0])).toBe(null);
+  });
+
+  test("finds the longest run of days with contributions", () => {
+    expect(getLongestStreakRange([1, 0, 2, 3, 1, 0, 4, 4])).toEqual({
+      start: 2,
+      end: 4,
+    });
+  });
+
+  test("includes runs at the start and the end of the year", () => {
+    expect(getLongestStreakRange([5, 5, 5, 0, 1])).toEqual({
+      start: 0,
+      end: 2,
+    });
+    expect(getLongestStreakRange([1, 0, 1, 1])).toEqual({ start: 2, end: 3 });
+  });
+
+  test("keeps the first of equally long runs", () => {
+    expect(getLongestStreakRange([1, 1, 0, 1, 1])).toEqual({
+      start: 0,
+      end: 1,
+    });
+  });
+});
+
+test("getLongestStreak() counts the days of the range", () => {
+  expect(getLongestStreak([0, 0])).toBe(0);
+  expect(getLongestStreak([1, 0, 2, 3, 1])).toBe(3);
+});
+
+test("getDaysInYear() and getDayOfYear() handle leap years", () => {
+  expect(getDaysInYear(2023)).toBe(365);
+  expect(getDaysInYear(2024)).toBe(366);
+  expect(getDayOfYear({ year: 2024, month: 1, day: 1 })).toBe(0);
+  expect(getDayOfYear({ year: 2024, month: 12, day: 31 })).toBe(365);
+});
@@ -0,0 +1,55 @@
+/**
+ * Index range (inclusive) of the longest run of consecutive days with at
+ * least one contribution. `contributionData` holds one count per day, in
+ * order. Returns `null` if there were no contributions at all.
+ */
+export const getLongestStreakRange = (
+  contributionData: number[],
+): { start: number; end: number } | null => {
+  let longest: { start: number; end: number } | null = null;
+  let currentStart = 0;
+
+  for (let i = 0; i < contributionData.length; i++) {
+    if (contributionData[i] === 0) {
+      currentStart = i + 1;
+      continue;
+    }
+
+    if (!longest || i - currentStart > longest.end - longest.start) {
+      longest = { start: currentStart, end: i };
+    }
+  }
+
+  return longest;
+};
+
+export const getLongestStreak = (contributionData: number[]) => {
+  const range = getLongestStreakRange(contributionData);
+
+  return range ? range.end - range.start + 1 : 0;
+};
+
+export const getTotalContributions = (contributionData: number[]) => {
+  return contributionData.reduce((total, count) => total + count, 0);
+};
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+export const getDaysInYear = (year: number) => {
+  return (Date.UTC(year + 1, 0, 1) - Date.UTC(year, 0, 1)) / DAY_IN_MS;
+};
+
+/**
+ * Zero-based index of a calendar date within its year (Jan 1 = 0).
+ */
+export const getDayOfYear = ({
+  year,
+  month,
+  day,
+}: {
+  year: number;
+  month: number;
+  day: number;
+}) => {
+  return (Date.UTC(year, month - 1, day) - Date.UTC(year, 0, 1)) / DAY_IN_MS;
+};
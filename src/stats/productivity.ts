@@ -0,0 +1,49 @@
+import type { Hour, ProductivityPerHour, Weekday } from "../config";
+
+/**
+ * A single contribution (commit, PR, issue…) expressed in the author's
+ * local time. Weekdays are 0 = Monday … 6 = Sunday, matching the wheel
+ * order of the Productivity scene.
+ */
+export type LocalContribution = {
+  hour: number;
+  weekday: number;
+};
+
+export const indexOfMax = (values: number[]) => {
+  let maxIndex = 0;
+  for (let i = 1; i < values.length; i++) {
+    if (values[i] > values[maxIndex]) {
+      maxIndex = i;
+    }
+  }
+
+  return maxIndex;
+};
+
+export const computeProductivity = (contributions: LocalContribution[]) => {
+  const perHour = new Array<number>(24).fill(0);
+  const allWeekdays = new Array<number>(7).fill(0);
+
+  for (const contribution of contributions) {
+    perHour[contribution.hour]++;
+    allWeekdays[contribution.weekday]++;
+  }
+
+  const graphData: ProductivityPerHour[] = perHour.map((productivity, time) => {
+    return { time, productivity };
+  });
+
+  const bestHours: Record<string, number> = {};
+  perHour.forEach((count, hour) => {
+    bestHours[String(hour)] = count;
+  });
+
+  return {
+    graphData,
+    bestHours,
+    allWeekdays,
+    topHour: String(indexOfMax(perHour)) as Hour,
+    topWeekday: String(indexOfMax(allWeekdays)) as Weekday,
+  };
+};
@@ -1,6 +1,18 @@
 export const VIDEO_WIDTH = 1080;
 export const VIDEO_HEIGHT = 1080;
 export const VIDEO_FPS = 30;
+
+// Scenes are designed for the square video; the other layouts adapt them
+export const VIDEO_LAYOUTS = {
+  square: { width: VIDEO_WIDTH, height: VIDEO_HEIGHT },
+  vertical: { width: 1080, height: 1920 },
+  landscape: { width: 1920, height: 1080 },
+} as const;
+export type VideoLayout = keyof typeof VIDEO_LAYOUTS;
+
+export const OG_IMAGE_WIDTH = 1200;
+export const OG_IMAGE_HEIGHT = 630;
+
 export const TOP_LANGUAGES_DURATION = 15 * 30;
 export const TRANSFORM_PATH_Y = 0;
 export const TRANSFORM_PATH_X = 0;